@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   GlobalPlayer,
   TournamentPlayer,
@@ -6,8 +6,13 @@ import {
   TournamentSummary,
   PlayerView,
   Match,
+  Rod,
+  FixedTeam,
   AppView,
   TournamentSettings,
+  BracketPairing,
+  BracketElimination,
+  PairingRule,
   DEFAULT_TOURNAMENT_SETTINGS,
   FoosballExport,
   NicknameConflict,
@@ -21,7 +26,7 @@ import OfflineBanner from './components/OfflineBanner';
 import UpdatePrompt from './components/UpdatePrompt';
 import NicknameConflictModal from './components/NicknameConflictModal';
 import ToastContainer from './components/ToastContainer';
-import { generateNextMatch, generateMatchQueue, updatePlayerStats, getWinningScore, getUnicornBonus, getLeaderboard } from './services/tournamentLogic';
+import { generateKingMatch, getMatchPlayerIds, generateRoundRobinFixtures, generateSwissRound, getNextSwissRound, getFixtureProgress, getBuchholzScores, updatePlayerStats, assignRoles, isSinglesTeam, getMatchWinner, getSeriesWinner, startNextGame, withSeriesTotals, recomputePlayerStats, getLeaderboard, getMatchBrokenPairingRules, describePairingRule } from './services/tournamentLogic';
 import {
   loadGlobalPlayers,
   saveGlobalPlayers,
@@ -39,6 +44,16 @@ import {
   generateId,
   formatTournamentDate,
 } from './services/storageService';
+import { createKnockoutBracket, createTeamKnockoutBracket, advanceBracket, isMatchReady, canChangeBracketResult, retractBracketResult } from './services/bracketService';
+import { getTeamViews, getTeamLeaderboard, getTeamBuchholzScores, getSinglesTeams, generateNextTeamMatch, generateTeamKingMatch, generateTeamRound, generateTeamSwissRound, generateTeamRoundRobinFixtures } from './services/teamService';
+import { getMatchmakingStrategy, generateMatchQueue } from './services/matchmakingService';
+import { isQueuedMatch, validateMatch, moveQueuedMatch, requeueMatch } from './services/queueService';
+import { validateResult, reconcileGoals, applyLifetimeStats, replaceLifetimeStats } from './services/resultService';
+import { applyFairness, toggleCheckIn } from './services/fairnessService';
+import { addGoal, removeLastGoal, attributeGoal } from './services/goalService';
+import { canUndo, canRedo, recordScoreStep, undoScore, redoScore, replaceGoalInHistory, clearScoreHistory } from './services/scoreHistoryService';
+import { getActiveMatches, getFreeTables, getBusyPlayerIds, markBusyPlayers, markBusyTeams } from './services/tableService';
+import { applyMatchRatings, replayRatingsFrom, getMatchmakingRatings, DEFAULT_RATING, DEFAULT_SKILL_MU, DEFAULT_SKILL_SIGMA } from './services/ratingService';
 import { jsonFilePlugin } from './services/jsonFilePlugin';
 import { resizeImage } from './services/imageService';
 import { useToast } from './hooks/useToast';
@@ -62,6 +77,8 @@ const createPlayerViews = (globalPlayers: GlobalPlayer[], tournamentPlayers: Tou
       points: tp.points,
       unicorns: tp.unicorns,
       isAvailable: tp.isAvailable,
+      checkedInAt: tp.checkedInAt,
+      presentMs: tp.presentMs,
     };
   });
 };
@@ -79,6 +96,8 @@ const createEmptyTournamentPlayer = (globalPlayerId: string): TournamentPlayer =
   points: 0,
   unicorns: 0,
   isAvailable: true,
+  checkedInAt: Date.now(),
+  presentMs: 0,
 });
 
 const App: React.FC = () => {
@@ -93,14 +112,6 @@ const App: React.FC = () => {
   // View state
   const [view, setView] = useState<AppView>(AppView.LOBBY);
 
-  // Score history for undo/redo
-  const [scoreHistory, setScoreHistory] = useState<{team1: number, team2: number}[]>([{team1: 0, team2: 0}]);
-  const [historyIndex, setHistoryIndex] = useState(0);
-  const historyRef = useRef(scoreHistory);
-  const indexRef = useRef(historyIndex);
-  historyRef.current = scoreHistory;
-  indexRef.current = historyIndex;
-
   // Track previous leaderboard state for animations when returning from match
   const [previousLeaderboard, setPreviousLeaderboard] = useState<{id: string, points: number, rank: number}[] | null>(null);
 
@@ -126,12 +137,13 @@ const App: React.FC = () => {
       if (tournament) {
         setCurrentTournament(tournament);
 
-        // Check for active match
-        const activeMatch = tournament.matches.find(m => m.status === 'active');
-        if (activeMatch) {
-          setCurrentMatch(activeMatch);
+        // Check for active matches: with one table, go straight back into the match;
+        // with several, back to the dashboard where every table's match can be opened
+        const activeMatches = getActiveMatches(tournament.matches);
+        if (activeMatches.length === 1 && (tournament.settings?.tableCount ?? 1) <= 1) {
+          setCurrentMatch(activeMatches[0]);
           setView(AppView.ACTIVE_MATCH);
-        } else if (tournament.players.length >= 4) {
+        } else if (activeMatches.length > 0 || tournament.players.length >= 4) {
           setView(AppView.DASHBOARD);
         } else {
           setView(AppView.SETUP);
@@ -140,6 +152,16 @@ const App: React.FC = () => {
     }
   }, []);
 
+  // Keep the live match (score, goals and undo history) in the tournament on every
+  // change, so it is saved and a reload picks the match up where it was
+  useEffect(() => {
+    if (!currentMatch || currentMatch.status !== 'active') return;
+    setCurrentTournament(prev => prev && prev.matches.some(m => m.id === currentMatch.id && m !== currentMatch) ? {
+      ...prev,
+      matches: prev.matches.map(m => m.id === currentMatch.id ? currentMatch : m),
+    } : prev);
+  }, [currentMatch]);
+
   // Save tournament on change
   useEffect(() => {
     if (currentTournament) {
@@ -279,6 +301,12 @@ const App: React.FC = () => {
       lifetimeGamesPlayed: 0,
       lifetimePoints: 0,
       lifetimeUnicorns: 0,
+      rating: DEFAULT_RATING,
+      ratingHistory: [],
+      skillMu: DEFAULT_SKILL_MU,
+      skillSigma: DEFAULT_SKILL_SIGMA,
+      attackRating: DEFAULT_RATING,
+      defenseRating: DEFAULT_RATING,
     };
 
     setGlobalPlayers(prev => [...prev, newGlobalPlayer]);
@@ -295,6 +323,37 @@ const App: React.FC = () => {
     setCurrentTournament(prev => prev ? {
       ...prev,
       players: prev.players.filter(p => p.globalPlayerId !== globalPlayerId),
+      // A team can't play without both of its players
+      fixedTeams: prev.fixedTeams?.filter(t => !t.playerIds.includes(globalPlayerId)),
+    } : null);
+  };
+
+  const handleToggleFixedTeams = () => {
+    if (!currentTournament) return;
+
+    const settings = currentTournament.settings ?? DEFAULT_TOURNAMENT_SETTINGS;
+    setCurrentTournament(prev => prev ? {
+      ...prev,
+      settings: { ...settings, isFixedTeams: !settings.isFixedTeams },
+    } : null);
+  };
+
+  const handleAddFixedTeam = (name: string, playerIds: [string, string]) => {
+    if (!currentTournament) return;
+
+    const newTeam: FixedTeam = { id: generateId(), name, playerIds };
+    setCurrentTournament(prev => prev ? {
+      ...prev,
+      fixedTeams: [...(prev.fixedTeams ?? []), newTeam],
+    } : null);
+  };
+
+  const handleRemoveFixedTeam = (teamId: string) => {
+    if (!currentTournament) return;
+
+    setCurrentTournament(prev => prev ? {
+      ...prev,
+      fixedTeams: prev.fixedTeams?.filter(t => t.id !== teamId),
     } : null);
   };
 
@@ -306,17 +365,91 @@ const App: React.FC = () => {
   // Dashboard Handlers
   // ============================================
 
+  // Fixed teams (or singles players as teams of one) with stats derived from the
+  // tournament's matches; null when partners rotate
+  const getTournamentTeams = (tournament: TournamentData) => {
+    const settings = tournament.settings ?? DEFAULT_TOURNAMENT_SETTINGS;
+    const playerViews = createPlayerViews(globalPlayers, tournament.players);
+    const teams = settings.isSingles
+      ? getSinglesTeams(playerViews)
+      : settings.isFixedTeams ? tournament.fixedTeams ?? [] : null;
+    return teams && getTeamViews(teams, playerViews, tournament.matches, settings);
+  };
+
+  // Tell the organizer which pairing rules matchmaking had to break
+  const warnBrokenPairingRules = (newMatches: Match[], players: PlayerView[], rules: PairingRule[]) => {
+    const broken = rules.filter(rule => newMatches.some(m => getMatchBrokenPairingRules(m, [rule]).length > 0));
+    if (broken.length > 0) {
+      addToast({
+        type: 'info',
+        message: `No split kept every pairing rule. Broken: ${broken.map(rule => describePairingRule(rule, players)).join(', ')}.`,
+      });
+    }
+  };
+
   const handleGenerateRound = () => {
     if (!currentTournament) return;
 
     const playerViews = createPlayerViews(globalPlayers, currentTournament.players);
-    const newMatches = generateMatchQueue(playerViews, currentTournament.matches);
+    const settings = currentTournament.settings ?? DEFAULT_TOURNAMENT_SETTINGS;
+    const isSingles = settings.isSingles;
+    const teams = getTournamentTeams(currentTournament);
+
+    // Round robin: build the whole fixture list up front
+    if (currentTournament.settings?.format === 'roundRobin') {
+      const fixtures = teams ? generateTeamRoundRobinFixtures(teams, playerViews) : generateRoundRobinFixtures(playerViews);
+
+      if (fixtures.length > 0) {
+        setCurrentTournament(prev => prev ? {
+          ...prev,
+          matches: [...prev.matches.filter(m => m.status !== 'scheduled'), ...fixtures],
+          fixtureIds: fixtures.map(m => m.id),
+          completedAt: undefined,
+        } : null);
+      } else {
+        addToast({ type: 'error', message: 'Could not generate fixtures. Ensure at least 4 players are enabled.' });
+      }
+      return;
+    }
+
+    // Swiss: pair the next round from the current standings
+    if (currentTournament.settings?.format === 'swiss') {
+      if (currentTournament.matches.some(m => m.swissRound && m.status !== 'completed')) {
+        addToast({ type: 'error', message: 'Finish the current Swiss round before pairing the next one.' });
+        return;
+      }
+
+      const roundMatches = teams
+        ? generateTeamSwissRound(teams, playerViews, currentTournament.matches, getNextSwissRound(currentTournament.matches), currentTournament.settings)
+        : generateSwissRound(playerViews, currentTournament.matches, currentTournament.settings);
+
+      if (roundMatches.length > 0) {
+        setCurrentTournament(prev => prev ? {
+          ...prev,
+          matches: [...prev.matches, ...roundMatches],
+        } : null);
+      } else {
+        addToast({ type: 'error', message: 'Could not pair a Swiss round. Ensure at least 4 players are enabled.' });
+      }
+      return;
+    }
+
+    // Winner stays on: the next match depends on who wins this one
+    if (currentTournament.settings?.format === 'kingOfTable') {
+      addToast({ type: 'error', message: 'King of the table plays one match at a time.' });
+      return;
+    }
+
+    const newMatches = teams && !isSingles
+      ? generateTeamRound(teams, playerViews, currentTournament.matches)
+      : generateMatchQueue(applyFairness(playerViews, settings), currentTournament.matches, settings, getMatchmakingRatings(globalPlayers, settings));
 
     if (newMatches.length > 0) {
       setCurrentTournament(prev => prev ? {
         ...prev,
         matches: [...prev.matches, ...newMatches],
       } : null);
+      if (!teams || isSingles) warnBrokenPairingRules(newMatches, playerViews, settings.pairingRules);
     } else {
       addToast({ type: 'error', message: 'Could not generate a balanced round. Try enabling more players.' });
     }
@@ -325,58 +458,233 @@ const App: React.FC = () => {
   const handleClearQueue = () => {
     if (!currentTournament) return;
 
+    setCurrentTournament(prev => {
+      if (!prev) return null;
+
+      // Bracket matches are only removed by cancelling the knockout; pinned matches stay
+      const matches = prev.matches.filter(m => !isQueuedMatch(m) || m.isPinned);
+
+      // Clearing the queue abandons the fixture list, unless pinned fixtures are still to play:
+      // then it shrinks to the fixtures that remain
+      const remainingFixtureIds = prev.fixtureIds?.filter(id => matches.some(m => m.id === id));
+      const hasPinnedFixtures = !!remainingFixtureIds?.some(id => matches.some(m => m.id === id && isQueuedMatch(m)));
+
+      return { ...prev, matches, fixtureIds: hasPinnedFixtures ? remainingFixtureIds : undefined };
+    });
+  };
+
+  // Add a hand-built match to the queue, or save changes to a queued one.
+  // Returns false (with a toast) when the match is not valid.
+  const handleSaveQueuedMatch = (match: Match): boolean => {
+    if (!currentTournament) return false;
+
+    const playerViews = createPlayerViews(globalPlayers, currentTournament.players);
+    const error = validateMatch(match, playerViews, !!currentTournament.settings?.isSingles);
+    if (error) {
+      addToast({ type: 'error', message: error });
+      return false;
+    }
+
+    const isNew = !currentTournament.matches.some(m => m.id === match.id);
+    setCurrentTournament(prev => prev ? {
+      ...prev,
+      matches: isNew ? [...prev.matches, match] : prev.matches.map(m => m.id === match.id ? match : m),
+    } : null);
+    return true;
+  };
+
+  const handleDeleteQueuedMatch = (matchId: string) => {
+    setCurrentTournament(prev => prev ? {
+      ...prev,
+      matches: prev.matches.filter(m => m.id !== matchId),
+      fixtureIds: prev.fixtureIds?.filter(id => id !== matchId),
+    } : null);
+  };
+
+  const handleMoveQueuedMatch = (matchId: string, toIndex: number) => {
+    setCurrentTournament(prev => prev ? {
+      ...prev,
+      matches: moveQueuedMatch(prev.matches, matchId, toIndex),
+    } : null);
+  };
+
+  const handleTogglePinMatch = (matchId: string) => {
     setCurrentTournament(prev => prev ? {
       ...prev,
-      matches: prev.matches.filter(m => m.status !== 'scheduled'),
+      matches: prev.matches.map(m => m.id === matchId ? { ...m, isPinned: !m.isPinned } : m),
     } : null);
   };
 
-  const handleStartMatch = (previewMatch?: Match) => {
+  const handleStartKnockout = (size: number, pairing: BracketPairing, elimination: BracketElimination) => {
     if (!currentTournament) return;
 
-    // Check for scheduled matches first
-    const scheduledMatchIndex = currentTournament.matches.findIndex(m => m.status === 'scheduled');
+    const playerViews = createPlayerViews(globalPlayers, currentTournament.players);
+    const buchholz = currentTournament.settings?.format === 'swiss' ? getBuchholzScores(playerViews, currentTournament.matches) : undefined;
 
-    if (scheduledMatchIndex !== -1) {
-      const matchToStart = { ...currentTournament.matches[scheduledMatchIndex], status: 'active' as const };
-      setCurrentMatch(matchToStart);
-      setScoreHistory([{team1: 0, team2: 0}]);
-      setHistoryIndex(0);
+    let knockout: ReturnType<typeof createKnockoutBracket>;
 
-      setCurrentTournament(prev => {
-        if (!prev) return null;
-        const newMatches = [...prev.matches];
-        newMatches[scheduledMatchIndex] = matchToStart;
-        return { ...prev, matches: newMatches };
-      });
+    if (currentTournament.settings?.isSingles) {
+      // Singles: every seed is a team of one
+      const seeds = getLeaderboard(playerViews, buchholz, currentTournament.settings, currentTournament.matches).filter(p => p.isAvailable).slice(0, size);
+
+      if (seeds.length < size) {
+        addToast({ type: 'error', message: `A knockout of ${size} needs ${size} available players.` });
+        return;
+      }
+
+      knockout = createTeamKnockoutBracket(seeds.map(p => ({ attackerId: p.id, defenderId: p.id })), elimination);
+    } else if (currentTournament.settings?.isFixedTeams) {
+      // Fixed teams: seed the top teams as they are registered
+      const tournamentTeams = getTournamentTeams(currentTournament) ?? [];
+      const teamBuchholz = buchholz && getTeamBuchholzScores(tournamentTeams, currentTournament.matches);
+      const seededTeams = getTeamLeaderboard(tournamentTeams, currentTournament.settings, currentTournament.matches, teamBuchholz).filter(t => t.isAvailable).slice(0, size / 2);
+
+      if (seededTeams.length < size / 2) {
+        addToast({ type: 'error', message: `A knockout of ${size} needs ${size / 2} available teams.` });
+        return;
+      }
+
+      knockout = createTeamKnockoutBracket(seededTeams.map(t => {
+        const [p1, p2] = t.playerIds.map(id => playerViews.find(p => p.id === id)!);
+        return assignRoles(p1, p2);
+      }), elimination);
+    } else {
+      const seeds = getLeaderboard(playerViews, buchholz, currentTournament.settings, currentTournament.matches).filter(p => p.isAvailable).slice(0, size);
+
+      if (seeds.length < size) {
+        addToast({ type: 'error', message: `A knockout of ${size} needs ${size} available players.` });
+        return;
+      }
+
+      knockout = createKnockoutBracket(seeds, pairing, elimination);
+    }
+
+    const { bracket, matches } = knockout;
+
+    setCurrentTournament(prev => prev ? {
+      ...prev,
+      // Group play is over: drop anything still queued
+      matches: [...prev.matches.filter(m => m.status !== 'scheduled'), ...matches],
+      bracket,
+      completedAt: undefined,
+    } : null);
+  };
+
+  const handleCancelKnockout = () => {
+    if (!currentTournament?.bracket) return;
 
-      setView(AppView.ACTIVE_MATCH);
+    const bracketMatchIds = currentTournament.bracket.matchIds;
+
+    setCurrentTournament(prev => prev ? {
+      ...prev,
+      matches: prev.matches.filter(m => !bracketMatchIds.includes(m.id) || m.status === 'completed'),
+      bracket: undefined,
+    } : null);
+  };
+
+  // Open a match's scoring session, with the undo history it was left with
+  const openMatch = (match: Match) => {
+    setCurrentMatch(match);
+    setView(AppView.ACTIVE_MATCH);
+  };
+
+  const handleStartMatch = (previewMatch?: Match, table?: number) => {
+    if (!currentTournament) return;
+
+    const settings = currentTournament.settings ?? DEFAULT_TOURNAMENT_SETTINGS;
+    const freeTables = getFreeTables(currentTournament.matches, settings.tableCount);
+    if (freeTables.length === 0) {
+      addToast({ type: 'error', message: 'All tables are in use. Finish a match first.' });
+      return;
+    }
+    const requestedTable = table && freeTables.includes(table) ? table : undefined;
+
+    // Check for scheduled matches first (bracket matches wait until both teams are known).
+    // Players still on another table can't be booked; matches queued for this table go first.
+    const busyPlayerIds = getBusyPlayerIds(currentTournament.matches);
+    const readyMatches = currentTournament.matches.filter(m => m.status === 'scheduled' && isMatchReady(m));
+
+    if (readyMatches.length > 0) {
+      const playable = readyMatches.filter(m => getMatchPlayerIds(m).every(id => !busyPlayerIds.has(id)));
+      const scheduledMatch = playable.find(m => m.table === requestedTable) ?? playable[0];
+      if (!scheduledMatch) {
+        addToast({ type: 'error', message: 'Every queued match has a player still on another table.' });
+        return;
+      }
+
+      const matchTable = requestedTable
+        ?? (scheduledMatch.table && freeTables.includes(scheduledMatch.table) ? scheduledMatch.table : freeTables[0]);
+      const matchToStart = { ...scheduledMatch, status: 'active' as const, table: matchTable, startedAt: Date.now() };
+
+      setCurrentTournament(prev => prev ? {
+        ...prev,
+        matches: prev.matches.map(m => m.id === matchToStart.id ? matchToStart : m),
+      } : null);
+
+      openMatch(matchToStart);
       return;
     }
 
-    // Use preview match if provided, otherwise generate a new one
-    const nextMatch = previewMatch || generateNextMatch(
-      createPlayerViews(globalPlayers, currentTournament.players),
-      currentTournament.matches
-    );
+    // Use preview match if provided, otherwise generate a new one from the players who are free
+    const playerViews = markBusyPlayers(createPlayerViews(globalPlayers, currentTournament.players), currentTournament.matches);
+    const teamViews = getTournamentTeams(currentTournament);
+    const teams = teamViews && markBusyTeams(teamViews, currentTournament.matches);
+    const isSingles = settings.isSingles;
+    const isKingOfTable = settings.format === 'kingOfTable';
+    const nextMatch = previewMatch || (isKingOfTable
+      // Winner stays on: last match's winners against the longest-waiting challengers
+      ? (teams && !isSingles
+        ? generateTeamKingMatch(teams, playerViews, currentTournament.matches)
+        : generateKingMatch(playerViews, currentTournament.matches, isSingles))
+      : teams && !isSingles
+        ? generateNextTeamMatch(teams, playerViews, currentTournament.matches)
+        : getMatchmakingStrategy(settings)(applyFairness(playerViews, settings), currentTournament.matches, settings, getMatchmakingRatings(globalPlayers, settings)));
 
     if (nextMatch) {
-      const activeMatch = { ...nextMatch, status: 'active' as const };
-      setCurrentMatch(activeMatch);
-      setScoreHistory([{team1: 0, team2: 0}]);
-      setHistoryIndex(0);
+      const activeMatch = { ...nextMatch, status: 'active' as const, table: requestedTable ?? freeTables[0], startedAt: Date.now() };
+      if (!isKingOfTable && (!teams || isSingles)) warnBrokenPairingRules([activeMatch], playerViews, settings.pairingRules);
 
       setCurrentTournament(prev => prev ? {
         ...prev,
         matches: [...prev.matches, activeMatch],
       } : null);
 
-      setView(AppView.ACTIVE_MATCH);
+      openMatch(activeMatch);
     } else {
-      addToast({ type: 'error', message: 'Not enough available players to generate a match. Ensure at least 4 players are enabled.' });
+      addToast({
+        type: 'error',
+        message: busyPlayerIds.size > 0
+          ? 'Not enough free players to generate a match. Wait for a table to finish.'
+          : 'Not enough available players to generate a match. Ensure at least 4 players are enabled.',
+      });
     }
   };
 
+  // Multi-table: open the scoring session of a match in progress
+  const handleOpenMatch = (matchId: string) => {
+    const match = currentTournament?.matches.find(m => m.id === matchId && m.status === 'active');
+    if (match) openMatch(match);
+  };
+
+  // Timed matches: the clock ran out, so the side ahead wins (or the next goal, from level)
+  const handleTimeUp = () => {
+    setCurrentMatch(prev => prev && !prev.timeExpired ? { ...prev, timeExpired: true } : prev);
+  };
+
+  // Multi-table: step back to the dashboard while the match carries on
+  const handleLeaveMatch = () => {
+    if (!currentMatch) return;
+    const match = currentMatch;
+
+    setCurrentTournament(prev => prev ? {
+      ...prev,
+      matches: prev.matches.map(m => m.id === match.id ? match : m),
+    } : null);
+
+    setCurrentMatch(null);
+    setView(AppView.DASHBOARD);
+  };
+
   const handleUpdateSettings = (newSettings: TournamentSettings) => {
     if (!currentTournament) return;
 
@@ -395,7 +703,7 @@ const App: React.FC = () => {
       return {
         ...prev,
         players: prev.players.map(p =>
-          p.globalPlayerId === globalPlayerId ? { ...p, isAvailable: !p.isAvailable } : p
+          p.globalPlayerId === globalPlayerId ? toggleCheckIn(p) : p
         ),
       };
     });
@@ -478,76 +786,61 @@ const App: React.FC = () => {
   const handleUpdateScore = useCallback((team: 'team1' | 'team2', delta: number) => {
     setCurrentMatch(prev => {
       if (!prev) return null;
-      const winningScore = getWinningScore(currentTournament?.settings);
-      const newScore = Math.min(winningScore, Math.max(0, prev[team].score + delta));
+      // No more goals once the match is decided
+      if (delta > 0 && getMatchWinner(prev, currentTournament?.settings)) return prev;
+
+      if (delta < 0 && prev[team].score === 0) return prev;
+
+      const newScore = prev[team].score + delta;
       const newMatch = {
-        ...prev,
+        ...(delta > 0 ? addGoal(prev, team) : removeLastGoal(prev, team)),
         [team]: { ...prev[team], score: newScore }
       };
 
-      const currentIndex = indexRef.current;
-      const newHistory = historyRef.current.slice(0, currentIndex + 1);
-      newHistory.push({
-        team1: newMatch.team1.score,
-        team2: newMatch.team2.score
-      });
-      setScoreHistory(newHistory);
-      setHistoryIndex(currentIndex + 1);
-
-      return newMatch;
+      return recordScoreStep(prev, newMatch);
     });
   }, [currentTournament?.settings]);
 
   const handleUndo = useCallback(() => {
-    const currentIndex = indexRef.current;
-    if (currentIndex <= 0) return;
-    const newIndex = currentIndex - 1;
-    const prevState = historyRef.current[newIndex];
-    setHistoryIndex(newIndex);
-    setCurrentMatch(prev => {
-      if (!prev) return null;
-      return {
-        ...prev,
-        team1: { ...prev.team1, score: prevState.team1 },
-        team2: { ...prev.team2, score: prevState.team2 }
-      };
-    });
+    setCurrentMatch(prev => prev && undoScore(prev));
   }, []);
 
   const handleRedo = useCallback(() => {
-    const currentIndex = indexRef.current;
-    const history = historyRef.current;
-    if (currentIndex >= history.length - 1) return;
-    const newIndex = currentIndex + 1;
-    const nextState = history[newIndex];
-    setHistoryIndex(newIndex);
+    setCurrentMatch(prev => prev && redoScore(prev));
+  }, []);
+
+  // Who scored: attribute a goal, and the same goal in the undo history so a redo keeps the scorer
+  const handleAttributeGoal = (index: number, scorerId: string, rod?: Rod) => {
     setCurrentMatch(prev => {
-      if (!prev) return null;
-      return {
-        ...prev,
-        team1: { ...prev.team1, score: nextState.team1 },
-        team2: { ...prev.team2, score: nextState.team2 }
-      };
+      const goal = prev?.goals?.[index];
+      if (!prev || !goal) return prev;
+      const updated = attributeGoal(prev, index, scorerId, rod);
+      return replaceGoalInHistory(updated, goal, updated.goals![index]);
     });
-  }, []);
+  };
 
   const handleFinishMatch = () => {
     if (!currentMatch || !currentTournament) return;
 
     const settings = currentTournament.settings ?? DEFAULT_TOURNAMENT_SETTINGS;
-    const winningScore = getWinningScore(settings);
-    const unicornBonus = getUnicornBonus(settings);
-
-    const winner = currentMatch.team1.score >= winningScore ? 'team1' :
-                   currentMatch.team2.score >= winningScore ? 'team2' : undefined;
+    const winner = getSeriesWinner(currentMatch, settings);
 
     if (!winner) return;
 
-    const completedMatch: Match = { ...currentMatch, status: 'completed', winner, timestamp: Date.now() };
+    const endedAt = Date.now();
+    const completedMatch: Match = {
+      ...clearScoreHistory(withSeriesTotals(currentMatch)),
+      status: 'completed',
+      winner,
+      timestamp: endedAt,
+      endedAt,
+      durationMs: currentMatch.startedAt ? endedAt - currentMatch.startedAt : undefined,
+    };
 
     // Capture the previous leaderboard state BEFORE updating stats
     const playerViews = createPlayerViews(globalPlayers, currentTournament.players);
-    const prevLeaderboard = getLeaderboard(playerViews);
+    const buchholz = settings.format === 'swiss' ? getBuchholzScores(playerViews, currentTournament.matches) : undefined;
+    const prevLeaderboard = getLeaderboard(playerViews, buchholz, settings, currentTournament.matches);
     setPreviousLeaderboard(prevLeaderboard.map((p, index) => ({ id: p.id, points: p.points, rank: index })));
 
     // Update tournament players
@@ -573,54 +866,69 @@ const App: React.FC = () => {
       return tp;
     });
 
-    // Update lifetime stats for global players
-    const winningTeam = completedMatch[winner];
-    const losingTeam = completedMatch[winner === 'team1' ? 'team2' : 'team1'];
-    const isUnicorn = winningTeam.score === 10 && losingTeam.score === 0;
-
-    setGlobalPlayers(prev => prev.map(gp => {
-      const isWinner = gp.id === winningTeam.attackerId || gp.id === winningTeam.defenderId;
-      const isLoser = gp.id === losingTeam.attackerId || gp.id === losingTeam.defenderId;
+    // Update lifetime stats and ratings for global players
+    setGlobalPlayers(prev => applyMatchRatings(applyLifetimeStats(prev, [completedMatch], settings), completedMatch, currentTournament.id, settings.isPositionMode));
 
-      if (!isWinner && !isLoser) return gp;
+    // Update tournament
+    let updatedMatches = currentTournament.matches.map(m => m.id === completedMatch.id ? completedMatch : m);
+    let updatedBracket = currentTournament.bracket;
 
-      const goalsFor = isWinner ? winningTeam.score : losingTeam.score;
-      const goalsAgainst = isWinner ? losingTeam.score : winningTeam.score;
+    // Knockout: winners fill the next bracket slot
+    if (updatedBracket && completedMatch.bracket) {
+      ({ matches: updatedMatches, bracket: updatedBracket } = advanceBracket(updatedMatches, completedMatch, updatedBracket));
+    }
 
-      return {
-        ...gp,
-        lifetimeWins: gp.lifetimeWins + (isWinner ? 1 : 0),
-        lifetimeLosses: gp.lifetimeLosses + (isLoser ? 1 : 0),
-        lifetimeGoalsScored: gp.lifetimeGoalsScored + goalsFor,
-        lifetimeGoalsConceded: gp.lifetimeGoalsConceded + goalsAgainst,
-        lifetimeGamesPlayed: gp.lifetimeGamesPlayed + 1,
-        lifetimePoints: gp.lifetimePoints + (isWinner ? 1 : 0) + (isWinner && isUnicorn ? unicornBonus : 0),
-        lifetimeUnicorns: gp.lifetimeUnicorns + (isWinner && isUnicorn ? 1 : 0),
-      };
-    }));
+    const fixtureProgress = getFixtureProgress({ ...currentTournament, matches: updatedMatches });
+    const isFixtureListComplete = !updatedBracket && !!fixtureProgress && fixtureProgress.played === fixtureProgress.total;
+    const isKnockoutComplete = !!updatedBracket?.championIds && !currentTournament.bracket?.championIds;
 
-    // Update tournament
     setCurrentTournament(prev => {
       if (!prev) return null;
       return {
         ...prev,
-        matches: prev.matches.map(m => m.id === completedMatch.id ? completedMatch : m),
+        matches: updatedMatches,
+        bracket: updatedBracket,
         players: updatedTournamentPlayers,
+        completedAt: isFixtureListComplete || isKnockoutComplete ? Date.now() : prev.completedAt,
       };
     });
 
+    if (isFixtureListComplete) {
+      addToast({ type: 'success', message: 'All fixtures played - the round robin is complete!' });
+    }
+    if (isKnockoutComplete) {
+      const championNames = updatedBracket!.championIds!
+        .map(id => globalPlayers.find(gp => gp.id === id)?.nickname || 'Unknown')
+        .join(' & ');
+      addToast({ type: 'success', message: `${championNames} win the knockout!` });
+    }
+
     setCurrentMatch(null);
     setView(AppView.DASHBOARD);
   };
 
+  // Series: the game is decided but not the match, so play the next game from 0-0
+  const handleNextGame = () => {
+    if (!currentMatch || !currentTournament) return;
+    const settings = currentTournament.settings ?? DEFAULT_TOURNAMENT_SETTINGS;
+    if (!getMatchWinner(currentMatch, settings) || getSeriesWinner(currentMatch, settings)) return;
+
+    setCurrentMatch(clearScoreHistory(startNextGame(currentMatch, settings)));
+  };
+
   const handleCancelMatch = () => {
     if (!currentMatch || !currentTournament) return;
 
+    // Fixtures and bracket matches go back into the queue; ad-hoc matches are discarded
+    const isFixture = currentTournament.fixtureIds?.includes(currentMatch.id) || !!currentMatch.bracket;
+
     setCurrentTournament(prev => {
       if (!prev) return null;
       return {
         ...prev,
-        matches: prev.matches.filter(m => m.id !== currentMatch.id),
+        matches: isFixture
+          ? prev.matches.map(m => m.id === currentMatch.id ? requeueMatch(currentMatch) : m)
+          : prev.matches.filter(m => m.id !== currentMatch.id),
       };
     });
 
@@ -628,6 +936,96 @@ const App: React.FC = () => {
     setView(AppView.DASHBOARD);
   };
 
+  // ============================================
+  // Result Correction Handlers
+  // ============================================
+
+  // Save a tournament after one of its completed matches was corrected or deleted.
+  // Tournament stats are replayed from the match list, this tournament's share of the
+  // lifetime stats is swapped for the corrected one, and ratings are rewound to the
+  // changed match and replayed from there.
+  const applyCorrectedResults = (updated: TournamentData, changedMatch: Match) => {
+    if (!currentTournament) return;
+    const settings = updated.settings ?? DEFAULT_TOURNAMENT_SETTINGS;
+    const recomputed = { ...updated, players: recomputePlayerStats(updated.players, updated.matches, settings) };
+    const savedTournaments = [
+      ...loadTournamentList()
+        .filter(t => t.id !== recomputed.id)
+        .map(t => loadTournament(t.id))
+        .filter((t): t is TournamentData => t !== null),
+      recomputed,
+    ];
+
+    setGlobalPlayers(prev => replayRatingsFrom(replaceLifetimeStats(prev, currentTournament, recomputed), savedTournaments, changedMatch));
+    setCurrentTournament(recomputed);
+  };
+
+  const handleSaveResult = (match: Match): boolean => {
+    if (!currentTournament) return false;
+    const original = currentTournament.matches.find(m => m.id === match.id && m.status === 'completed');
+    if (!original) return false;
+
+    if (original.bracket && !canChangeBracketResult(currentTournament.matches, original)) {
+      addToast({ type: 'error', message: 'Knockout results cannot be changed once the next match has been played.' });
+      return false;
+    }
+    const error = validateResult(match, createPlayerViews(globalPlayers, currentTournament.players), isSinglesTeam(original.team1));
+    if (error) {
+      addToast({ type: 'error', message: error });
+      return false;
+    }
+
+    // Knockout: the old result's teams leave the next round and the corrected winner takes their place
+    const corrected = reconcileGoals(original, match);
+    let { matches, bracket } = currentTournament;
+    if (bracket && original.bracket) {
+      ({ matches, bracket } = retractBracketResult(matches, original, bracket));
+    }
+    matches = matches.map(m => m.id === corrected.id ? corrected : m);
+    if (bracket && corrected.bracket) {
+      ({ matches, bracket } = advanceBracket(matches, corrected, bracket));
+    }
+
+    applyCorrectedResults({
+      ...currentTournament,
+      matches,
+      bracket,
+      completedAt: bracket && !bracket.championIds ? undefined : currentTournament.completedAt,
+    }, original);
+    addToast({ type: 'success', message: 'Result corrected - stats and ratings recalculated' });
+    return true;
+  };
+
+  const handleDeleteResult = (matchId: string) => {
+    if (!currentTournament) return;
+    const match = currentTournament.matches.find(m => m.id === matchId && m.status === 'completed');
+    if (!match) return;
+
+    if (match.bracket && !canChangeBracketResult(currentTournament.matches, match)) {
+      addToast({ type: 'error', message: 'Knockout results cannot be deleted once the next match has been played.' });
+      return;
+    }
+
+    // Fixtures and bracket matches go back into the queue to be played again; other matches are removed
+    const isFixture = !!currentTournament.fixtureIds?.includes(match.id) || !!match.bracket;
+    let { matches, bracket } = currentTournament;
+    if (bracket && match.bracket) {
+      ({ matches, bracket } = retractBracketResult(matches, match, bracket));
+    }
+
+    // Still complete only while the knockout has its champions, or (without one) no fixture was reopened
+    const isStillComplete = bracket ? !!bracket.championIds : !isFixture;
+    applyCorrectedResults({
+      ...currentTournament,
+      matches: isFixture
+        ? matches.map(m => m.id === matchId ? requeueMatch(m) : m)
+        : matches.filter(m => m.id !== matchId),
+      bracket,
+      completedAt: isStillComplete ? currentTournament.completedAt : undefined,
+    }, match);
+    addToast({ type: 'success', message: isFixture ? 'Result deleted - the match is back in the queue' : 'Match deleted - stats and ratings recalculated' });
+  };
+
   const handleSwapPlayer = (team: 'team1' | 'team2', position: 'attacker' | 'defender', newPlayerId: string) => {
     if (!currentMatch || !currentTournament) return;
 
@@ -636,12 +1034,12 @@ const App: React.FC = () => {
 
     const positionKey = position === 'attacker' ? 'attackerId' : 'defenderId';
 
+    // Singles: the one player fills both slots
     const updatedMatch = {
       ...currentMatch,
-      [team]: {
-        ...currentMatch[team],
-        [positionKey]: newPlayerId,
-      },
+      [team]: isSinglesTeam(currentMatch[team])
+        ? { ...currentMatch[team], attackerId: newPlayerId, defenderId: newPlayerId }
+        : { ...currentMatch[team], [positionKey]: newPlayerId },
     };
 
     setCurrentMatch(updatedMatch);
@@ -664,6 +1062,12 @@ const App: React.FC = () => {
   const playerViews = currentTournament
     ? createPlayerViews(globalPlayers, currentTournament.players)
     : [];
+  const isSingles = !!currentTournament?.settings?.isSingles;
+  const isFixedTeams = !!currentTournament?.settings?.isFixedTeams && !isSingles;
+  const teamViews = currentTournament && isFixedTeams ? getTournamentTeams(currentTournament) ?? [] : [];
+  const hasEnoughPlayers = isFixedTeams
+    ? teamViews.filter(t => t.isAvailable).length >= 2
+    : playerViews.filter(p => p.isAvailable).length >= (isSingles ? 2 : 4);
 
   return (
     <div className="font-sans text-slate-100 bg-foos-dark min-h-screen">
@@ -692,6 +1096,12 @@ const App: React.FC = () => {
           onAddPlayer={handleAddPlayerToTournament}
           onCreatePlayer={handleCreateAndAddPlayer}
           onRemovePlayer={handleRemovePlayerFromTournament}
+          isSingles={isSingles}
+          isFixedTeams={isFixedTeams}
+          fixedTeams={currentTournament.fixedTeams ?? []}
+          onToggleFixedTeams={handleToggleFixedTeams}
+          onAddFixedTeam={handleAddFixedTeam}
+          onRemoveFixedTeam={handleRemoveFixedTeam}
           onFinishSetup={handleFinishSetup}
           onBackToLobby={handleBackToLobby}
           addToast={addToast}
@@ -705,9 +1115,22 @@ const App: React.FC = () => {
           matches={currentTournament.matches}
           tournamentName={currentTournament.name}
           onStartMatch={handleStartMatch}
+          onOpenMatch={handleOpenMatch}
           onGenerateRound={handleGenerateRound}
           onClearQueue={handleClearQueue}
-          canStartMatch={playerViews.filter(p => p.isAvailable).length >= 4}
+          onSaveQueuedMatch={handleSaveQueuedMatch}
+          onDeleteQueuedMatch={handleDeleteQueuedMatch}
+          onMoveQueuedMatch={handleMoveQueuedMatch}
+          onTogglePinMatch={handleTogglePinMatch}
+          onSaveResult={handleSaveResult}
+          onDeleteResult={handleDeleteResult}
+          teams={teamViews}
+          canStartMatch={!currentTournament.completedAt && hasEnoughPlayers}
+          fixtureProgress={getFixtureProgress(currentTournament)}
+          isComplete={!!currentTournament.completedAt}
+          bracket={currentTournament.bracket ?? null}
+          onStartKnockout={handleStartKnockout}
+          onCancelKnockout={handleCancelKnockout}
           settings={currentTournament.settings ?? DEFAULT_TOURNAMENT_SETTINGS}
           onUpdateSettings={handleUpdateSettings}
           onTogglePlayerAvailability={handleTogglePlayerAvailability}
@@ -723,16 +1146,20 @@ const App: React.FC = () => {
       {view === AppView.ACTIVE_MATCH && currentMatch && currentTournament && (
         <MatchView
           match={currentMatch}
-          players={playerViews}
+          players={markBusyPlayers(playerViews, currentTournament.matches)}
           onUpdateScore={handleUpdateScore}
           onFinishMatch={handleFinishMatch}
+          onNextGame={handleNextGame}
+          onAttributeGoal={handleAttributeGoal}
           onCancelMatch={handleCancelMatch}
+          onTimeUp={handleTimeUp}
+          onLeaveMatch={(currentTournament.settings?.tableCount ?? 1) > 1 ? handleLeaveMatch : undefined}
           settings={currentTournament.settings ?? DEFAULT_TOURNAMENT_SETTINGS}
           onUpdateSettings={handleUpdateSettings}
           onUndo={handleUndo}
           onRedo={handleRedo}
-          canUndo={historyIndex > 0}
-          canRedo={historyIndex < scoreHistory.length - 1}
+          canUndo={canUndo(currentMatch)}
+          canRedo={canRedo(currentMatch)}
           onSwapPlayer={handleSwapPlayer}
         />
       )}
@@ -0,0 +1,107 @@
+import React from 'react';
+import { Bracket, Match, PlayerView, Team } from '../types';
+import { getBracketRounds, getRoundName, isTeamDecided } from '../services/bracketService';
+import { getTeamPlayerIds, getSeriesScore } from '../services/tournamentLogic';
+import { GitBranch, Trophy, X } from 'lucide-react';
+
+interface Props {
+  bracket: Bracket;
+  matches: Match[];
+  players: PlayerView[];
+  onCancelKnockout: () => void;
+}
+
+const BracketView: React.FC<Props> = ({ bracket, matches, players, onCancelKnockout }) => {
+  const rounds = getBracketRounds(bracket, matches);
+  const isDouble = bracket.elimination === 'double';
+  const getNick = (id: string) => players.find(p => p.id === id)?.nickname || '?';
+  const champions = bracket.championIds?.map(getNick);
+
+  const renderTeam = (team: Team, score: number, isWinner: boolean, isLoser: boolean, color: string) => (
+    <div className={`flex items-center justify-between gap-2 px-2 py-1.5 ${isLoser ? 'opacity-40' : ''}`}>
+      <span className={`text-fluid-xs font-bold truncate ${isTeamDecided(team) ? (isWinner ? 'text-foos-gold' : color) : 'text-slate-600 italic'}`}>
+        {isTeamDecided(team) ? getTeamPlayerIds(team).map(getNick).join(' & ') : 'TBD'}
+      </span>
+      <span className={`font-mono text-fluid-xs font-black tabular-nums ${isWinner ? 'text-foos-gold' : 'text-slate-500'}`}>
+        {isTeamDecided(team) ? score : ''}
+      </span>
+    </div>
+  );
+
+  const renderRounds = (sideRounds: Match[][], getLabel: (round: number) => string) => (
+    <div className="flex gap-2 md:gap-3 overflow-x-auto pb-2">
+      {sideRounds.map((roundMatches, round) => (
+        <div key={round} className="flex-1 min-w-[140px] md:min-w-[170px] flex flex-col justify-around gap-2">
+          <div className="text-2xs text-slate-500 font-bold uppercase tracking-wider text-center">
+            {getLabel(round)}
+          </div>
+          {roundMatches.map(match => {
+            const t1Win = match.winner === 'team1';
+            const t2Win = match.winner === 'team2';
+            // A played series shows the games won rather than the goals
+            const score = match.status === 'completed' && match.games
+              ? getSeriesScore(match)
+              : { team1: match.team1.score, team2: match.team2.score };
+            return (
+              <div
+                key={match.id}
+                className={`bg-slate-900/80 border rounded-card divide-y divide-slate-800 ${
+                  match.status === 'active' ? 'border-foos-brand shadow-button-brand' : 'border-slate-800'
+                }`}
+              >
+                {renderTeam(match.team1, score.team1, t1Win, t2Win, 'text-foos-blue')}
+                {renderTeam(match.team2, score.team2, t2Win, t1Win, 'text-foos-red')}
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="max-w-3xl w-full mx-auto">
+      <div className="flex items-center justify-between mb-2 md:mb-3">
+        <h3 className="text-slate-500 font-bold uppercase text-2xs md:text-fluid-xs tracking-wider flex items-center gap-2">
+          <GitBranch className="w-3 h-3 md:w-4 md:h-4" /> Knockout
+          <span className="text-slate-600 normal-case font-medium">
+            ({isDouble ? 'double elimination' : 'single elimination'}, {bracket.pairing === 'fixed' ? 'fixed pairs' : 'rotating pairs'})
+          </span>
+        </h3>
+        {!champions && (
+          <button
+            onClick={onCancelKnockout}
+            className="text-slate-500 hover:text-red-400 text-2xs font-bold uppercase tracking-widest transition flex items-center gap-1"
+          >
+            <X className="w-3 h-3" /> Cancel Knockout
+          </button>
+        )}
+      </div>
+
+      {champions && (
+        <div className="mb-3 bg-foos-gold/10 border border-foos-gold/30 rounded-card p-2 md:p-3 flex items-center gap-2 text-foos-gold font-bold text-fluid-sm">
+          <Trophy className="w-4 h-4" /> Champions: {champions.join(' & ')}
+        </div>
+      )}
+
+      {isDouble && <div className="text-2xs text-slate-500 font-bold uppercase tracking-wider mb-1">Winners' Bracket</div>}
+      {renderRounds(rounds.winners, round => getRoundName(round, rounds.winners.length))}
+
+      {isDouble && rounds.losers.length > 0 && (
+        <>
+          <div className="text-2xs text-slate-500 font-bold uppercase tracking-wider mt-3 mb-1">Losers' Bracket</div>
+          {renderRounds(rounds.losers, round => round === rounds.losers.length - 1 ? "Losers' Final" : `Round ${round + 1}`)}
+        </>
+      )}
+
+      {isDouble && (
+        <>
+          <div className="text-2xs text-slate-500 font-bold uppercase tracking-wider mt-3 mb-1">Grand Final</div>
+          {renderRounds(rounds.grandFinal, round => round === 0 ? 'Grand Final' : 'Reset')}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BracketView;
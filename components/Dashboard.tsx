@@ -1,10 +1,21 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
-import { PlayerView, Match, GlobalPlayer, TournamentSettings, Toast } from '../types';
-import { getLeaderboard, generateNextMatch } from '../services/tournamentLogic';
-import { Play, Crown, History, Shield, Sword, Power, Sparkles, X, List, CalendarClock, Zap, AlertTriangle, RefreshCw, ArrowLeft, UserPlus, Camera, Settings, ChevronDown } from 'lucide-react';
+import { PlayerView, Match, Team, GlobalPlayer, TournamentSettings, Toast, Bracket, BracketPairing, BracketElimination, TeamView, Rod } from '../types';
+import { getLeaderboard, isUnicornMatch, getUnicornLabel, getPointsPerGame, getPointsPerGameLeaderboard, getVarietyScore, generateKingMatch, getChallengerQueue, getTableHolders, getCurrentReign, getLongestReign, getBuchholzScores, getNextSwissRound, getTeamPlayerIds, isSinglesTeam } from '../services/tournamentLogic';
+import { isMatchReady, canChangeBracketResult, KNOCKOUT_SIZES } from '../services/bracketService';
+import { isQueuedMatch } from '../services/queueService';
+import { applyFairness, getMinutesPresent } from '../services/fairnessService';
+import { getPlayerGoalStats, ROD_LABELS } from '../services/goalService';
+import { getTeamLeaderboard, getTeamBuchholzScores, generateNextTeamMatch, generateTeamKingMatch, getTeamChallengerQueue, getHoldingTeam } from '../services/teamService';
+import { Play, Crown, History, Shield, Sword, Power, Sparkles, X, List, CalendarClock, Zap, AlertTriangle, RefreshCw, ArrowLeft, UserPlus, Camera, Settings, ChevronDown, Trophy, ListOrdered, GitBranch, LayoutGrid, GripVertical, Pin, Pencil, Trash2, Plus } from 'lucide-react';
 import AvatarEditor from './AvatarEditor';
 import OptionsModal from './OptionsModal';
+import BracketView from './BracketView';
+import MatchEditorModal from './MatchEditorModal';
+import RatingChart from './RatingChart';
+import { getMatchmakingStrategy } from '../services/matchmakingService';
+import { getActiveMatches, getFreeTables, getTableMatch, getTableNumbers, markBusyPlayers, markBusyTeams } from '../services/tableService';
+import { getConservativeSkill, getMatchmakingRatings, getRatings, getWinProbability } from '../services/ratingService';
 import { useAvatarQueue } from '../hooks/useAvatarQueue';
 
 interface PreviousLeaderboardEntry {
@@ -15,16 +26,29 @@ interface PreviousLeaderboardEntry {
 
 interface Props {
   players: PlayerView[];
+  teams: TeamView[];
   globalPlayers: GlobalPlayer[];
   matches: Match[];
   tournamentName: string;
-  onStartMatch: (previewMatch?: Match) => void;
+  onStartMatch: (previewMatch?: Match, table?: number) => void;
+  onOpenMatch: (matchId: string) => void;
   onGenerateRound: () => void;
   onClearQueue: () => void;
+  onSaveQueuedMatch: (match: Match) => boolean;
+  onDeleteQueuedMatch: (matchId: string) => void;
+  onMoveQueuedMatch: (matchId: string, toIndex: number) => void;
+  onTogglePinMatch: (matchId: string) => void;
+  onSaveResult: (match: Match) => boolean;     // Correct a completed match
+  onDeleteResult: (matchId: string) => void;   // Delete a completed match (fixtures go back in the queue)
   onBackToLobby: () => void;
   onEditRoster: () => void;
   onUpdatePlayer: (player: GlobalPlayer) => void;
   canStartMatch: boolean;
+  fixtureProgress: { played: number, total: number } | null;
+  isComplete: boolean;
+  bracket: Bracket | null;
+  onStartKnockout: (size: number, pairing: BracketPairing, elimination: BracketElimination) => void;
+  onCancelKnockout: () => void;
   settings: TournamentSettings;
   onUpdateSettings: (settings: TournamentSettings) => void;
   onTogglePlayerAvailability: (id: string) => void;
@@ -33,7 +57,7 @@ interface Props {
   addToast: (toast: Omit<Toast, 'id'>) => string;
 }
 
-type LeaderboardMode = 'leaderboard' | 'leastPlayed';
+type LeaderboardMode = 'leaderboard' | 'perGame' | 'scorers' | 'teams' | 'skill' | 'leastPlayed';
 
 // Sound effect for new leader celebration
 const playNewLeaderSound = () => {
@@ -90,16 +114,29 @@ const playNewLeaderSound = () => {
 
 const Dashboard: React.FC<Props> = ({
     players,
+    teams,
     globalPlayers,
     matches,
     tournamentName,
     onStartMatch,
+    onOpenMatch,
     onGenerateRound,
     onClearQueue,
+    onSaveQueuedMatch,
+    onDeleteQueuedMatch,
+    onMoveQueuedMatch,
+    onTogglePinMatch,
+    onSaveResult,
+    onDeleteResult,
     onBackToLobby,
     onEditRoster,
     onUpdatePlayer,
     canStartMatch,
+    fixtureProgress,
+    isComplete,
+    bracket,
+    onStartKnockout,
+    onCancelKnockout,
     settings,
     onUpdateSettings,
     onTogglePlayerAvailability,
@@ -108,23 +145,66 @@ const Dashboard: React.FC<Props> = ({
     addToast,
 }) => {
   const { isGenerating } = useAvatarQueue();
-  const isPositionMode = settings.isPositionMode;
+  const isSingles = settings.isSingles;
+  // Positions and fixed pairs only apply to doubles
+  const isPositionMode = settings.isPositionMode && !isSingles;
+  const isRoundRobin = settings.format === 'roundRobin';
+  const isSwiss = settings.format === 'swiss';
+  const isKingOfTable = settings.format === 'kingOfTable';
+  const isFixedTeams = settings.isFixedTeams && !isSingles;
   const completedMatches = matches.filter(m => m.status === 'completed').sort((a, b) => b.timestamp - a.timestamp);
-  const scheduledMatches = matches.filter(m => m.status === 'scheduled');
+  // Bracket matches only join the queue once both teams are known
+  const scheduledMatches = matches.filter(m => m.status === 'scheduled' && isMatchReady(m));
+  const isKnockoutInProgress = !!bracket && !bracket.championIds;
+  // The editable queue (bracket matches are placed by the knockout)
+  const queuedMatches = matches.filter(isQueuedMatch);
+  const unpinnedCount = queuedMatches.filter(m => !m.isPinned).length;
+
+  // Tables: matches in progress, and who is free to be booked for the next one
+  const activeMatches = getActiveMatches(matches);
+  const freeTables = getFreeTables(matches, settings.tableCount);
+  const hasFreeTable = freeTables.length > 0;
+  const showTables = settings.tableCount > 1 || activeMatches.length > 0;
 
   const recentMatches = completedMatches.slice(0, 5);
   const totalGames = completedMatches.length;
   const totalGoals = players.reduce((acc, p) => acc + p.goalsScored, 0);
+  // Fixed teams always repeat partners, so variety only applies to reshuffled teams
+  const varietyScore = useMemo(() => isFixedTeams ? null : getVarietyScore(matches), [matches, isFixedTeams]);
 
   // Modals state
   const [selectedPlayer, setSelectedPlayer] = useState<PlayerView | null>(null);
   const [showHistory, setShowHistory] = useState(false);
   const [showCancelRoundConfirm, setShowCancelRoundConfirm] = useState(false);
+  // Queue editing: the match being edited (null for a new custom match) and the row being dragged
+  const [matchEditor, setMatchEditor] = useState<{ match: Match | null } | null>(null);
+  // History: completed match being corrected, or awaiting delete confirmation
+  const [resultEditor, setResultEditor] = useState<Match | null>(null);
+  const [deleteResultId, setDeleteResultId] = useState<string | null>(null);
+  const [draggedMatchId, setDraggedMatchId] = useState<string | null>(null);
   const [editingAvatarPlayer, setEditingAvatarPlayer] = useState<GlobalPlayer | null>(null);
   const [showOptionsModal, setShowOptionsModal] = useState(false);
+  const [showKnockoutSetup, setShowKnockoutSetup] = useState(false);
+  const [knockoutSize, setKnockoutSize] = useState(KNOCKOUT_SIZES[0]);
+  const [knockoutPairing, setKnockoutPairing] = useState<BracketPairing>('fixed');
+  const [knockoutElimination, setKnockoutElimination] = useState<BracketElimination>('single');
+
+  // Swiss standings break ties on strength of opposition
+  const buchholz = useMemo(() => isSwiss ? getBuchholzScores(players, matches) : undefined, [isSwiss, players, matches]);
+  const nextSwissRound = getNextSwissRound(matches);
+  const swissRoundInProgress = isSwiss && scheduledMatches.some(m => m.swissRound);
 
   // Leaderboard mode state
-  const [leaderboardMode, setLeaderboardMode] = useState<LeaderboardMode>('leaderboard');
+  const [leaderboardMode, setLeaderboardMode] = useState<LeaderboardMode>(isFixedTeams ? 'teams' : 'leaderboard');
+  const leaderboardModes: LeaderboardMode[] = isFixedTeams ? ['teams', 'leaderboard', 'perGame', 'scorers', 'skill', 'leastPlayed'] : ['leaderboard', 'perGame', 'scorers', 'skill', 'leastPlayed'];
+  const leaderboardTitles: Record<LeaderboardMode, { full: string, short: string }> = {
+    leaderboard: { full: 'Leaderboard', short: 'Ranks' },
+    perGame: { full: 'Per Game', short: 'PPG' },
+    scorers: { full: 'Top Scorers', short: 'Goals' },
+    teams: { full: 'Teams', short: 'Teams' },
+    skill: { full: 'Skill', short: 'Skill' },
+    leastPlayed: { full: 'Least Played', short: 'Played' },
+  };
 
   // Next match preview state (for single match mode)
   const [previewMatch, setPreviewMatch] = useState<Match | null>(null);
@@ -138,13 +218,34 @@ const Dashboard: React.FC<Props> = ({
   const [positionChanges, setPositionChanges] = useState<Map<string, number>>(new Map());
   const animationTimeoutRef = React.useRef<NodeJS.Timeout | null>(null);
 
+  // Lifetime skill per player (conservative estimate: mean minus three deviations)
+  const skillById = useMemo(() => {
+    const skills: Record<string, { mu: number, sigma: number, conservative: number }> = {};
+    globalPlayers.forEach(gp => {
+      skills[gp.id] = { mu: gp.skillMu, sigma: gp.skillSigma, conservative: getConservativeSkill(gp) };
+    });
+    return skills;
+  }, [globalPlayers]);
+
+  // Personal goals, from goals recorded with a scorer
+  const goalStats = useMemo(() => getPlayerGoalStats(matches), [matches]);
+
   // Sorted players based on leaderboard mode
   const sortedPlayers = useMemo(() => {
     if (leaderboardMode === 'leastPlayed') {
       return [...players].sort((a, b) => a.gamesPlayed - b.gamesPlayed);
     }
-    return getLeaderboard(players);
-  }, [players, leaderboardMode]);
+    if (leaderboardMode === 'perGame') {
+      return getPointsPerGameLeaderboard(players);
+    }
+    if (leaderboardMode === 'scorers') {
+      return [...players].sort((a, b) => (goalStats[b.id]?.goals ?? 0) - (goalStats[a.id]?.goals ?? 0));
+    }
+    if (leaderboardMode === 'skill') {
+      return [...players].sort((a, b) => (skillById[b.id]?.conservative ?? 0) - (skillById[a.id]?.conservative ?? 0));
+    }
+    return getLeaderboard(players, buchholz, settings, matches);
+  }, [players, leaderboardMode, buchholz, skillById, settings, matches, goalStats]);
 
   // Calculate top score and all leaders (for joint leader display)
   const topScore = sortedPlayers.length > 0 ? sortedPlayers[0].points : 0;
@@ -155,15 +256,69 @@ const Dashboard: React.FC<Props> = ({
   }, [sortedPlayers, leaderboardMode]);
   const hasJointLeaders = leaderIds.size > 1;
 
+  // Fixed-teams standings
+  const sortedTeams = useMemo(
+    () => getTeamLeaderboard(teams, settings, matches, isSwiss ? getTeamBuchholzScores(teams, matches) : undefined),
+    [teams, settings, matches, isSwiss]
+  );
+
+  // Knockout seeding: top available players from the leaderboard (or top teams with fixed teams)
+  const availableCount = isFixedTeams
+    ? sortedTeams.filter(t => t.isAvailable).length * 2
+    : players.filter(p => p.isAvailable).length;
+  const knockoutSizes = KNOCKOUT_SIZES.filter(size => size <= availableCount);
+  const knockoutSeeds = isFixedTeams
+    ? sortedTeams.filter(t => t.isAvailable).slice(0, knockoutSize / 2)
+    : getLeaderboard(players, buchholz, settings, matches).filter(p => p.isAvailable).slice(0, knockoutSize);
+
+  // Players on another table are left out of the preview
+  const generatePreviewMatch = () => {
+    const freePlayers = markBusyPlayers(players, matches);
+    const freeTeams = markBusyTeams(teams, matches);
+    if (isKingOfTable) {
+      return isFixedTeams ? generateTeamKingMatch(freeTeams, freePlayers, matches) : generateKingMatch(freePlayers, matches, isSingles);
+    }
+    return isFixedTeams
+      ? generateNextTeamMatch(freeTeams, freePlayers, matches)
+      : getMatchmakingStrategy(settings)(applyFairness(freePlayers, settings), matches, settings, getMatchmakingRatings(globalPlayers, settings));
+  };
+
+  // Predicted chance that Blue wins the previewed match, from Elo ratings
+  const ratings = useMemo(() => getRatings(globalPlayers), [globalPlayers]);
+  const previewOdds = previewMatch
+    ? getWinProbability(getTeamPlayerIds(previewMatch.team1), getTeamPlayerIds(previewMatch.team2), ratings)
+    : null;
+
+  // King of the table: who holds the table, who is waiting, and the best run so far
+  const hasTableHolders = isKingOfTable && (isFixedTeams
+    ? !!getHoldingTeam(teams, players, matches)
+    : !!getTableHolders(players, matches, isSingles));
+  const challengers = useMemo(() => {
+    if (!isKingOfTable) return [];
+    return isFixedTeams
+      ? getTeamChallengerQueue(teams, players, matches).map(t => ({ id: t.id, name: t.name }))
+      : getChallengerQueue(players, matches, isSingles).map(p => ({ id: p.id, name: p.nickname }));
+  }, [isKingOfTable, isFixedTeams, isSingles, teams, players, matches]);
+  // Queue entries that make up the next match (both sides when nobody holds the table)
+  const nextChallengerCount = (isFixedTeams || isSingles ? 1 : 2) * (hasTableHolders ? 1 : 2);
+  const currentReign = isKingOfTable ? getCurrentReign(matches) : null;
+  const longestReign = isKingOfTable ? getLongestReign(matches) : null;
+  const getReignNames = (playerIds: string[]) => playerIds.map(getPlayerNick).join(' & ');
+
+  // Champions: knockout winners if a knockout was played, otherwise the leaderboard leaders
+  const championNames = bracket?.championIds
+    ? bracket.championIds.map(id => players.find(p => p.id === id)?.nickname || 'Unknown')
+    : sortedPlayers.filter(p => leaderIds.has(p.id)).map(p => p.nickname);
+
   // Generate preview match when in single match mode and players change
   useEffect(() => {
-    if (scheduledMatches.length === 0 && canStartMatch) {
-      const nextMatch = generateNextMatch(players, matches);
+    if (scheduledMatches.length === 0 && canStartMatch && hasFreeTable) {
+      const nextMatch = generatePreviewMatch();
       setPreviewMatch(nextMatch);
     } else {
       setPreviewMatch(null);
     }
-  }, [players, matches, scheduledMatches.length, canStartMatch]);
+  }, [players, globalPlayers, teams, matches, scheduledMatches.length, canStartMatch, hasFreeTable, settings]);
 
   // Reset player modal tab when selecting a new player
   useEffect(() => {
@@ -253,7 +408,7 @@ const Dashboard: React.FC<Props> = ({
 
   // Handler to refresh the preview match
   const handleRefreshPreview = () => {
-    const nextMatch = generateNextMatch(players, matches);
+    const nextMatch = generatePreviewMatch();
     setPreviewMatch(nextMatch);
   };
 
@@ -265,15 +420,20 @@ const Dashboard: React.FC<Props> = ({
     );
   };
 
-  // Helper to get formatted name for a team
-  const getTeamNames = (team: any) => {
-    const p1 = players.find(p => p.id === team.attackerId)?.nickname || '?';
-    const p2 = players.find(p => p.id === team.defenderId)?.nickname || '?';
-    return { p1, p2 };
+  // Helper to get formatted name for a team (a single name in singles)
+  const getTeamName = (team: Team) => {
+    const names = getTeamPlayerIds(team).map(id => players.find(p => p.id === id)?.nickname || '?');
+    return names.join(isPositionMode ? '/' : ' & ');
   };
 
   const getPlayerNick = (id: string) => players.find(p => p.id === id)?.nickname || 'Unknown';
 
+  // Lifetime rating of the player shown in the player modal
+  const selectedGlobalPlayer = selectedPlayer ? globalPlayers.find(g => g.id === selectedPlayer.id) : undefined;
+  // Check-in details from the roster, which stays current while the modal is open
+  const livePlayer = selectedPlayer ? players.find(p => p.id === selectedPlayer.id) : undefined;
+  const lastRatingChange = selectedGlobalPlayer?.ratingHistory[selectedGlobalPlayer.ratingHistory.length - 1];
+
   const handleConfirmCancelRound = () => {
       onClearQueue();
       setShowCancelRoundConfirm(false);
@@ -286,25 +446,70 @@ const Dashboard: React.FC<Props> = ({
       <div className="w-[120px] sm:w-[160px] md:w-[220px] lg:w-[280px] xl:w-[320px] bg-foos-panel border-r border-slate-800 flex flex-col shadow-2xl z-10 flex-shrink-0">
         <div className="p-2 sm:p-3 md:p-4 border-b border-slate-800 bg-slate-900/50 backdrop-blur-sm sticky top-0 z-20">
           <button
-            onClick={() => setLeaderboardMode(prev => prev === 'leaderboard' ? 'leastPlayed' : 'leaderboard')}
+            onClick={() => setLeaderboardMode(prev => leaderboardModes[(leaderboardModes.indexOf(prev) + 1) % leaderboardModes.length])}
             className="flex items-center gap-1 md:gap-2 group w-full"
           >
             <h2 className="text-fluid-sm sm:text-fluid-base md:text-fluid-lg lg:text-fluid-xl font-black text-transparent bg-clip-text bg-gradient-to-r from-foos-gold to-yellow-200 flex items-center gap-1 md:gap-2 italic uppercase">
               <Crown className="w-4 h-4 md:w-5 md:h-5 text-foos-gold" />
-              <span className="hidden sm:inline">{leaderboardMode === 'leaderboard' ? 'Leaderboard' : 'Least Played'}</span>
-              <span className="sm:hidden">{leaderboardMode === 'leaderboard' ? 'Ranks' : 'Played'}</span>
+              <span className="hidden sm:inline">{leaderboardTitles[leaderboardMode].full}</span>
+              <span className="sm:hidden">{leaderboardTitles[leaderboardMode].short}</span>
             </h2>
             <ChevronDown className="w-3 h-3 md:w-4 md:h-4 text-foos-gold/50 group-hover:text-foos-gold transition" />
           </button>
           <p className="text-slate-500 text-2xs md:text-fluid-xs font-bold tracking-wider mt-0.5 uppercase hidden md:block">
             {leaderboardMode === 'leaderboard'
-              ? `${settings.winningScore}-0 = Unicorn ${settings.unicornBonus > 0 ? `(+${settings.unicornBonus} pt${settings.unicornBonus > 1 ? 's' : ''})` : '(No bonus)'}`
+              ? isSwiss
+                ? 'Ties broken by Buchholz'
+                : `${getUnicornLabel(settings)} = Unicorn ${settings.unicornBonus > 0 ? `(+${settings.unicornBonus} pt${settings.unicornBonus > 1 ? 's' : ''})` : '(No bonus)'}`
+              : leaderboardMode === 'perGame'
+              ? 'Points per game played'
+              : leaderboardMode === 'scorers'
+              ? 'Goals by scorer, where recorded'
+              : leaderboardMode === 'teams'
+              ? 'Ranked per fixed team'
+              : leaderboardMode === 'skill'
+              ? 'Conservative skill (μ − 3σ), all tournaments'
               : 'Sorted by games played'}
           </p>
         </div>
         
         <div className="flex-1 overflow-y-auto p-1.5 sm:p-2 md:p-3 space-y-1 md:space-y-2">
-          {sortedPlayers.map((player, index) => {
+          {leaderboardMode === 'teams' && sortedTeams.map((team, index) => {
+            const isTopTeam = index === 0 && team.points > 0;
+            return (
+            <div
+              key={team.id}
+              className={`relative flex items-center p-1.5 sm:p-2 md:p-3 rounded-card border transition-all duration-500 min-h-[44px] ${
+                !team.isAvailable ? 'opacity-50 grayscale border-slate-800 bg-slate-900' :
+                isTopTeam
+                  ? 'bg-gradient-to-br from-amber-500/10 to-transparent border-amber-500/30 shadow-amber-900/10 shadow-lg'
+                  : 'bg-slate-900 border-slate-800'
+              }`}
+            >
+               <div className={`absolute -left-1 md:-left-2 top-1/2 -translate-y-1/2 w-5 md:w-6 h-5 md:h-6 rounded-full flex items-center justify-center text-2xs md:text-fluid-xs font-bold border-2 ${
+                   isTopTeam ? 'bg-foos-gold text-slate-900 border-white' : 'bg-slate-800 text-slate-400 border-slate-700'
+               }`}>
+                   {index + 1}
+               </div>
+
+              <div className="flex-1 min-w-0 ml-4 sm:ml-5 md:ml-6">
+                <div className={`font-bold truncate text-fluid-xs sm:text-fluid-sm md:text-fluid-base leading-tight ${isTopTeam ? 'text-foos-gold' : 'text-slate-200'}`}>{team.name}</div>
+                <div className="hidden md:block text-2xs text-slate-500 truncate">
+                    {team.playerIds.map(id => players.find(p => p.id === id)?.nickname ?? '?').join(' & ')}
+                </div>
+                <div className="hidden md:flex gap-2 mt-0.5 text-2xs text-slate-500">
+                    <span><span className="text-green-400">{team.wins}W</span> <span className="text-red-400">{team.losses}L</span></span>
+                    {team.unicorns > 0 && (
+                        <span className="flex items-center gap-0.5 text-pink-400"><Sparkles className="w-3 h-3" /> {team.unicorns}</span>
+                    )}
+                </div>
+              </div>
+
+              <div className="text-fluid-sm sm:text-fluid-base md:text-fluid-lg lg:text-fluid-xl font-black tabular-nums leading-none font-mono text-foos-accent">{team.points}</div>
+            </div>
+          );
+          })}
+          {leaderboardMode !== 'teams' && sortedPlayers.map((player, index) => {
             const rankChange = positionChanges.get(player.id) || 0;
             const isLeader = leaderIds.has(player.id);
             const isNewLeader = newLeaderIds.has(player.id);
@@ -398,6 +603,9 @@ const Dashboard: React.FC<Props> = ({
                 {leaderboardMode === 'leaderboard' && (
                     <div className="hidden md:flex gap-2 mt-0.5 text-2xs text-slate-500">
                         <span><span className="text-green-400">{player.wins}W</span> <span className="text-red-400">{player.losses}L</span></span>
+                        {buchholz && (
+                            <span className="font-mono" title="Buchholz: points of everyone faced">BH {Number(buchholz[player.id]?.toFixed(1) ?? 0)}</span>
+                        )}
                         {isPositionMode && (
                             <span className="hidden lg:flex gap-1.5 font-mono">
                                 <span className="flex items-center gap-0.5"><Sword className="w-2 h-2"/> {player.attackPlayed}</span>
@@ -406,6 +614,12 @@ const Dashboard: React.FC<Props> = ({
                         )}
                     </div>
                 )}
+                {leaderboardMode === 'skill' && skillById[player.id] && (
+                    <div className="hidden md:flex gap-2 mt-0.5 text-2xs text-slate-500 font-mono">
+                        <span title="Estimated skill">μ {skillById[player.id].mu.toFixed(1)}</span>
+                        <span title="Uncertainty">σ {skillById[player.id].sigma.toFixed(1)}</span>
+                    </div>
+                )}
               </div>
 
               <div className="text-right flex flex-col items-end gap-0.5">
@@ -413,6 +627,12 @@ const Dashboard: React.FC<Props> = ({
                   <div className={`text-fluid-sm sm:text-fluid-base md:text-fluid-lg lg:text-fluid-xl font-black tabular-nums leading-none font-mono transition-all duration-300 ${
                     isNewLeader ? 'text-amber-400 scale-110' : 'text-foos-accent'
                   }`}>{player.points}</div>
+                ) : leaderboardMode === 'perGame' ? (
+                  <div className="text-fluid-sm md:text-fluid-base font-bold text-foos-accent tabular-nums leading-none font-mono" title={`${player.points} pts in ${player.gamesPlayed} games`}>{getPointsPerGame(player).toFixed(2)}</div>
+                ) : leaderboardMode === 'scorers' ? (
+                  <div className="text-fluid-sm md:text-fluid-base font-bold text-foos-accent tabular-nums leading-none font-mono" title={`${goalStats[player.id]?.ownGoals ?? 0} own goals`}>{goalStats[player.id]?.goals ?? 0} <span className="text-2xs md:text-fluid-xs text-slate-600">goals</span></div>
+                ) : leaderboardMode === 'skill' ? (
+                  <div className="text-fluid-sm md:text-fluid-base font-bold text-foos-accent tabular-nums leading-none font-mono">{(skillById[player.id]?.conservative ?? 0).toFixed(1)}</div>
                 ) : (
                   <div className="text-fluid-sm md:text-fluid-base font-bold text-slate-400 tabular-nums leading-none font-mono">{player.gamesPlayed} <span className="text-2xs md:text-fluid-xs text-slate-600">games</span></div>
                 )}
@@ -455,6 +675,21 @@ const Dashboard: React.FC<Props> = ({
               <div className="flex gap-2">
                 <span className="text-2xs md:text-fluid-xs font-bold uppercase tracking-wider text-slate-500">{totalGames} matches</span>
                 <span className="text-2xs md:text-fluid-xs font-bold uppercase tracking-wider text-slate-500">{totalGoals} goals</span>
+                {varietyScore !== null && (
+                  <span className="text-2xs md:text-fluid-xs font-bold uppercase tracking-wider text-slate-500" title="Share of teammate and opponent pairings that were not repeats">
+                    {varietyScore}% variety
+                  </span>
+                )}
+                {fixtureProgress && (
+                  <span className="text-2xs md:text-fluid-xs font-bold uppercase tracking-wider text-foos-accent">
+                    {fixtureProgress.played} of {fixtureProgress.total} fixtures played
+                  </span>
+                )}
+                {isSwiss && nextSwissRound > 1 && (
+                  <span className="text-2xs md:text-fluid-xs font-bold uppercase tracking-wider text-foos-accent">
+                    {nextSwissRound - 1} Swiss {nextSwissRound - 1 === 1 ? 'round' : 'rounds'}
+                  </span>
+                )}
               </div>
             </div>
           </div>
@@ -470,6 +705,22 @@ const Dashboard: React.FC<Props> = ({
                 <span className="text-fluid-xs font-bold uppercase tracking-wide hidden lg:block">Roster</span>
               </button>
 
+              {/* Knockout Button */}
+              {!bracket && (
+                <button
+                  onClick={() => {
+                    setKnockoutSize(knockoutSizes[knockoutSizes.length - 1] ?? KNOCKOUT_SIZES[0]);
+                    setShowKnockoutSetup(true);
+                  }}
+                  disabled={knockoutSizes.length === 0}
+                  className="flex items-center gap-1 md:gap-2 px-2 md:px-3 py-2 rounded-button border transition bg-slate-800 border-slate-700 text-slate-400 hover:text-white hover:bg-slate-700 active:scale-95 disabled:opacity-50"
+                  title="Start Knockout"
+                >
+                  <GitBranch className="w-4 h-4" />
+                  <span className="text-fluid-xs font-bold uppercase tracking-wide hidden lg:block">Knockout</span>
+                </button>
+              )}
+
               {/* Settings Button */}
               <button
                 onClick={() => setShowOptionsModal(true)}
@@ -490,42 +741,101 @@ const Dashboard: React.FC<Props> = ({
                 <div className="flex flex-col items-center justify-center">
                     <div className="bg-gradient-to-b from-slate-800 to-slate-900 p-[1px] rounded-card-lg md:rounded-2xl lg:rounded-3xl shadow-2xl shadow-black/50 max-w-lg xl:max-w-2xl 2xl:max-w-3xl w-full">
                         <div className="bg-foos-dark rounded-[calc(1rem-1px)] md:rounded-[calc(1rem-1px)] lg:rounded-[23px] p-4 sm:p-5 md:p-6 lg:p-8 xl:p-10 flex flex-col items-center text-center border border-white/5">
-                            {scheduledMatches.length > 0 ? (
+                            {isComplete ? (
                                 <>
-                                    <div className="w-12 h-12 md:w-14 md:h-14 lg:w-16 lg:h-16 bg-foos-accent/10 rounded-full flex items-center justify-center mb-3 md:mb-4 animate-pulse-slow ring-1 ring-foos-accent/30">
-                                        <CalendarClock className="w-6 h-6 md:w-7 md:h-7 lg:w-8 lg:h-8 text-foos-accent" />
+                                    <div className="w-12 h-12 md:w-14 md:h-14 lg:w-16 lg:h-16 bg-foos-gold/10 rounded-full flex items-center justify-center mb-3 md:mb-4 ring-1 ring-foos-gold/30">
+                                        <Trophy className="w-6 h-6 md:w-7 md:h-7 lg:w-8 lg:h-8 text-foos-gold" />
+                                    </div>
+                                    <h3 className="text-fluid-lg md:text-fluid-xl font-black text-white mb-1 uppercase italic tracking-wide">Tournament Complete</h3>
+                                    <p className="text-slate-500 text-fluid-sm font-medium">
+                                        {fixtureProgress ? `All ${fixtureProgress.total} fixtures played. ` : ''}
+                                        {championNames.length > 0 && (
+                                            <>Champion{championNames.length > 1 ? 's' : ''}: <span className="text-foos-gold font-bold">{championNames.join(' & ')}</span></>
+                                        )}
+                                    </p>
+                                </>
+                            ) : isRoundRobin && !fixtureProgress && !bracket ? (
+                                <>
+                                    <div className="w-12 h-12 md:w-14 md:h-14 lg:w-16 lg:h-16 bg-foos-accent/10 rounded-full flex items-center justify-center mb-3 md:mb-4 ring-1 ring-foos-accent/30">
+                                        <ListOrdered className="w-6 h-6 md:w-7 md:h-7 lg:w-8 lg:h-8 text-foos-accent" />
                                     </div>
-                                    <h3 className="text-fluid-lg md:text-fluid-xl font-black text-white mb-1 uppercase italic tracking-wide">Queue Active</h3>
+                                    <h3 className="text-fluid-lg md:text-fluid-xl font-black text-white mb-1 uppercase italic tracking-wide">Round Robin</h3>
                                     <p className="text-slate-500 text-fluid-sm mb-4 md:mb-6 font-medium">
-                                        <span className="text-foos-brand font-bold">{scheduledMatches.length}</span> matches scheduled.
+                                        Everyone partners everyone. The tournament closes when the last fixture is played.
                                     </p>
                                     <button
-                                        onClick={onStartMatch}
+                                        onClick={onGenerateRound}
                                         disabled={!canStartMatch}
-                                        className="w-full bg-gradient-to-r from-foos-brand to-red-500 hover:from-orange-400 hover:to-red-400 text-white font-black text-fluid-base md:text-fluid-lg lg:text-fluid-xl py-3 md:py-4 rounded-button shadow-button-brand transition transform hover:scale-[1.02] active:scale-95 flex items-center justify-center gap-2 uppercase tracking-wide mb-3 md:mb-4"
+                                        className="w-full bg-gradient-to-r from-foos-brand to-red-500 hover:from-orange-400 hover:to-red-400 text-white font-black text-fluid-base md:text-fluid-lg lg:text-fluid-xl py-3 md:py-4 rounded-button shadow-button-brand transition transform hover:scale-[1.02] active:scale-95 flex items-center justify-center gap-2 uppercase tracking-wide disabled:opacity-50 disabled:hover:scale-100"
                                     >
-                                        <Play className="w-5 h-5 md:w-6 md:h-6 fill-current" /> Play Next
+                                        <CalendarClock className="w-5 h-5 md:w-6 md:h-6" /> Generate Fixtures
+                                    </button>
+                                </>
+                            ) : isSwiss && !swissRoundInProgress && !bracket ? (
+                                <>
+                                    <div className="w-12 h-12 md:w-14 md:h-14 lg:w-16 lg:h-16 bg-foos-accent/10 rounded-full flex items-center justify-center mb-3 md:mb-4 ring-1 ring-foos-accent/30">
+                                        <ListOrdered className="w-6 h-6 md:w-7 md:h-7 lg:w-8 lg:h-8 text-foos-accent" />
+                                    </div>
+                                    <h3 className="text-fluid-lg md:text-fluid-xl font-black text-white mb-1 uppercase italic tracking-wide">Swiss Round {nextSwissRound}</h3>
+                                    <p className="text-slate-500 text-fluid-sm mb-4 md:mb-6 font-medium">
+                                        Everyone plays once against players on similar points, avoiding repeat opponents.
+                                    </p>
+                                    <button
+                                        onClick={onGenerateRound}
+                                        disabled={!canStartMatch}
+                                        className="w-full bg-gradient-to-r from-foos-brand to-red-500 hover:from-orange-400 hover:to-red-400 text-white font-black text-fluid-base md:text-fluid-lg lg:text-fluid-xl py-3 md:py-4 rounded-button shadow-button-brand transition transform hover:scale-[1.02] active:scale-95 flex items-center justify-center gap-2 uppercase tracking-wide disabled:opacity-50 disabled:hover:scale-100"
+                                    >
+                                        <CalendarClock className="w-5 h-5 md:w-6 md:h-6" /> Pair Round {nextSwissRound}
                                     </button>
+                                </>
+                            ) : scheduledMatches.length > 0 ? (
+                                <>
+                                    <div className="w-12 h-12 md:w-14 md:h-14 lg:w-16 lg:h-16 bg-foos-accent/10 rounded-full flex items-center justify-center mb-3 md:mb-4 animate-pulse-slow ring-1 ring-foos-accent/30">
+                                        <CalendarClock className="w-6 h-6 md:w-7 md:h-7 lg:w-8 lg:h-8 text-foos-accent" />
+                                    </div>
+                                    <h3 className="text-fluid-lg md:text-fluid-xl font-black text-white mb-1 uppercase italic tracking-wide">{isKnockoutInProgress ? 'Knockout' : 'Queue Active'}</h3>
+                                    <p className="text-slate-500 text-fluid-sm mb-4 md:mb-6 font-medium">
+                                        {isKnockoutInProgress ? (
+                                            <><span className="text-foos-brand font-bold">{scheduledMatches.length}</span> bracket {scheduledMatches.length === 1 ? 'match' : 'matches'} ready to play.</>
+                                        ) : fixtureProgress ? (
+                                            <>Fixture <span className="text-foos-brand font-bold">{fixtureProgress.played + 1}</span> of {fixtureProgress.total} up next.</>
+                                        ) : swissRoundInProgress ? (
+                                            <>Swiss round {nextSwissRound - 1}: <span className="text-foos-brand font-bold">{scheduledMatches.length}</span> {scheduledMatches.length === 1 ? 'match' : 'matches'} left.</>
+                                        ) : (
+                                            <><span className="text-foos-brand font-bold">{scheduledMatches.length}</span> matches scheduled.</>
+                                        )}
+                                    </p>
                                     <button
-                                        onClick={() => setShowCancelRoundConfirm(true)}
-                                        className="text-slate-500 hover:text-red-400 text-2xs md:text-fluid-xs font-bold uppercase tracking-widest transition flex items-center gap-2"
+                                        onClick={() => onStartMatch()}
+                                        disabled={!canStartMatch || !hasFreeTable}
+                                        className="w-full bg-gradient-to-r from-foos-brand to-red-500 hover:from-orange-400 hover:to-red-400 text-white font-black text-fluid-base md:text-fluid-lg lg:text-fluid-xl py-3 md:py-4 rounded-button shadow-button-brand transition transform hover:scale-[1.02] active:scale-95 flex items-center justify-center gap-2 uppercase tracking-wide mb-3 md:mb-4"
                                     >
-                                        <X className="w-3 h-3 md:w-4 md:h-4" /> Cancel Round
+                                        <Play className="w-5 h-5 md:w-6 md:h-6 fill-current" /> Play Next
                                     </button>
+                                    {!isKnockoutInProgress && (
+                                        <button
+                                            onClick={() => setShowCancelRoundConfirm(true)}
+                                            className="text-slate-500 hover:text-red-400 text-2xs md:text-fluid-xs font-bold uppercase tracking-widest transition flex items-center gap-2"
+                                        >
+                                            <X className="w-3 h-3 md:w-4 md:h-4" /> {fixtureProgress ? 'Cancel Fixtures' : 'Cancel Round'}
+                                        </button>
+                                    )}
                                 </>
                             ) : (
                                 <>
                                     {/* Header with refresh button */}
                                     <div className="flex items-center justify-between w-full mb-3 md:mb-4 xl:mb-6">
-                                        <h3 className="text-fluid-base md:text-fluid-lg xl:text-fluid-xl font-black text-white uppercase italic tracking-wide">Next Match</h3>
-                                        <button
-                                            onClick={handleRefreshPreview}
-                                            disabled={!canStartMatch}
-                                            className="p-2 xl:p-3 text-slate-500 hover:text-foos-accent hover:bg-slate-800 rounded-button transition disabled:opacity-50 active:scale-95"
-                                            title="Shuffle players"
-                                        >
-                                            <RefreshCw className="w-4 h-4 xl:w-5 xl:h-5" />
-                                        </button>
+                                        <h3 className="text-fluid-base md:text-fluid-lg xl:text-fluid-xl font-black text-white uppercase italic tracking-wide">{isKingOfTable ? 'Winner Stays On' : 'Next Match'}</h3>
+                                        {!isKingOfTable && (
+                                            <button
+                                                onClick={handleRefreshPreview}
+                                                disabled={!canStartMatch}
+                                                className="p-2 xl:p-3 text-slate-500 hover:text-foos-accent hover:bg-slate-800 rounded-button transition disabled:opacity-50 active:scale-95"
+                                                title="Shuffle players"
+                                            >
+                                                <RefreshCw className="w-4 h-4 xl:w-5 xl:h-5" />
+                                            </button>
+                                        )}
                                     </div>
 
                                     {/* Match Preview */}
@@ -534,9 +844,9 @@ const Dashboard: React.FC<Props> = ({
                                             <div className="flex items-center justify-between gap-4 md:gap-6 xl:gap-10">
                                                 {/* Team 1 */}
                                                 <div className="flex-1 flex flex-col items-center gap-2 md:gap-3 xl:gap-4">
-                                                    <div className="text-2xs md:text-fluid-xs xl:text-fluid-sm font-bold text-foos-blue uppercase tracking-wider">Blue</div>
+                                                    <div className="text-2xs md:text-fluid-xs xl:text-fluid-sm font-bold text-foos-blue uppercase tracking-wider">{hasTableHolders ? 'Holders' : 'Blue'}</div>
                                                     <div className="flex flex-col gap-2 xl:gap-3">
-                                                        {[previewMatch.team1.attackerId, previewMatch.team1.defenderId].map((playerId, idx) => {
+                                                        {getTeamPlayerIds(previewMatch.team1).map((playerId, idx) => {
                                                             const player = players.find(p => p.id === playerId);
                                                             return (
                                                                 <div key={playerId} className="flex items-center gap-2 md:gap-3 xl:gap-4">
@@ -562,13 +872,22 @@ const Dashboard: React.FC<Props> = ({
                                                 </div>
 
                                                 {/* VS */}
-                                                <div className="text-slate-700 font-black text-fluid-sm md:text-fluid-base xl:text-fluid-xl">VS</div>
+                                                <div className="flex flex-col items-center gap-1">
+                                                    <div className="text-slate-700 font-black text-fluid-sm md:text-fluid-base xl:text-fluid-xl">VS</div>
+                                                    {previewOdds !== null && (
+                                                        <div className="text-2xs xl:text-fluid-xs font-mono font-bold whitespace-nowrap" title="Predicted odds from Elo ratings">
+                                                            <span className="text-foos-blue">{Math.round(previewOdds * 100)}%</span>
+                                                            <span className="text-slate-600"> · </span>
+                                                            <span className="text-foos-red">{100 - Math.round(previewOdds * 100)}%</span>
+                                                        </div>
+                                                    )}
+                                                </div>
 
                                                 {/* Team 2 */}
                                                 <div className="flex-1 flex flex-col items-center gap-2 md:gap-3 xl:gap-4">
-                                                    <div className="text-2xs md:text-fluid-xs xl:text-fluid-sm font-bold text-foos-red uppercase tracking-wider">Red</div>
+                                                    <div className="text-2xs md:text-fluid-xs xl:text-fluid-sm font-bold text-foos-red uppercase tracking-wider">{hasTableHolders ? 'Challengers' : 'Red'}</div>
                                                     <div className="flex flex-col gap-2 xl:gap-3">
-                                                        {[previewMatch.team2.attackerId, previewMatch.team2.defenderId].map((playerId, idx) => {
+                                                        {getTeamPlayerIds(previewMatch.team2).map((playerId, idx) => {
                                                             const player = players.find(p => p.id === playerId);
                                                             return (
                                                                 <div key={playerId} className="flex items-center gap-2 md:gap-3 xl:gap-4 flex-row-reverse">
@@ -596,7 +915,7 @@ const Dashboard: React.FC<Props> = ({
                                         </div>
                                     ) : (
                                         <p className="text-slate-500 text-fluid-xs md:text-fluid-sm mb-4 md:mb-6">
-                                            {canStartMatch ? 'Generating match...' : 'Need more players'}
+                                            {!canStartMatch ? 'Need more players' : !hasFreeTable ? 'All tables in use' : activeMatches.length > 0 ? 'Waiting for players to come off a table' : 'Generating match...'}
                                         </p>
                                     )}
 
@@ -604,24 +923,26 @@ const Dashboard: React.FC<Props> = ({
                                     <div className="flex flex-col gap-2 md:gap-3 xl:gap-4 w-full">
                                         <button
                                             onClick={() => previewMatch ? onStartMatch(previewMatch) : onStartMatch()}
-                                            disabled={!canStartMatch || !previewMatch}
+                                            disabled={!canStartMatch || !previewMatch || !hasFreeTable}
                                             className="w-full bg-gradient-to-r from-foos-brand to-red-500 hover:from-orange-400 hover:to-red-400 text-white font-black text-fluid-sm md:text-fluid-lg xl:text-fluid-xl py-3 md:py-4 xl:py-5 rounded-button xl:rounded-card shadow-button-brand transition transform hover:scale-[1.02] active:scale-95 flex items-center justify-center gap-2 xl:gap-3 uppercase tracking-wide disabled:opacity-50 disabled:hover:scale-100"
                                         >
                                             <Play className="w-4 h-4 md:w-5 md:h-5 xl:w-6 xl:h-6 fill-current" /> Start Match
                                         </button>
-                                        <button
-                                            onClick={onGenerateRound}
-                                            disabled={!canStartMatch}
-                                            className="text-slate-500 hover:text-foos-accent hover:bg-slate-800/50 py-2 md:py-3 xl:py-4 rounded-button text-2xs md:text-fluid-xs xl:text-fluid-sm font-bold uppercase tracking-widest transition flex items-center justify-center gap-2"
-                                        >
-                                            <RefreshCw className="w-3 h-3 xl:w-4 xl:h-4" /> Final Round (Batch)
-                                        </button>
+                                        {!isKingOfTable && (
+                                            <button
+                                                onClick={onGenerateRound}
+                                                disabled={!canStartMatch}
+                                                className="text-slate-500 hover:text-foos-accent hover:bg-slate-800/50 py-2 md:py-3 xl:py-4 rounded-button text-2xs md:text-fluid-xs xl:text-fluid-sm font-bold uppercase tracking-widest transition flex items-center justify-center gap-2"
+                                            >
+                                                <RefreshCw className="w-3 h-3 xl:w-4 xl:h-4" /> Final Round (Batch)
+                                            </button>
+                                        )}
                                     </div>
                                 </>
                             )}
 
-                            {!canStartMatch && (
-                                <p className="text-2xs md:text-fluid-xs text-red-400 mt-3 md:mt-4 font-bold bg-red-400/10 px-2 md:px-3 py-1 rounded-button">Need at least 4 available players.</p>
+                            {!canStartMatch && !isComplete && (
+                                <p className="text-2xs md:text-fluid-xs text-red-400 mt-3 md:mt-4 font-bold bg-red-400/10 px-2 md:px-3 py-1 rounded-button">{isFixedTeams ? 'Need at least 2 available teams.' : `Need at least ${isSingles ? 2 : 4} available players.`}</p>
                             )}
                         </div>
                     </div>
@@ -636,28 +957,181 @@ const Dashboard: React.FC<Props> = ({
                     View Match History
                 </button>
 
-                {/* SCHEDULE LIST */}
-                {scheduledMatches.length > 0 && (
+                {/* TABLES */}
+                {showTables && (
+                     <div className="max-w-3xl w-full mx-auto">
+                        <h3 className="text-slate-500 font-bold uppercase text-2xs md:text-fluid-xs tracking-wider flex items-center gap-2 mb-2 md:mb-3">
+                            <LayoutGrid className="w-3 h-3 md:w-4 md:h-4" /> Tables
+                        </h3>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                            {getTableNumbers(Math.max(settings.tableCount, ...activeMatches.map(m => m.table ?? 1))).map(table => {
+                                const match = getTableMatch(matches, table);
+                                return match ? (
+                                    <button
+                                        key={table}
+                                        onClick={() => onOpenMatch(match.id)}
+                                        className="bg-slate-900/80 border border-foos-brand/40 hover:border-foos-brand rounded-card p-2 md:p-3 text-left transition active:scale-[0.98]"
+                                    >
+                                        <div className="flex items-center justify-between mb-1">
+                                            <span className="text-2xs text-slate-500 font-bold uppercase tracking-wider">Table {table}</span>
+                                            <span className="text-2xs text-foos-brand font-bold uppercase tracking-wider animate-pulse-slow">Live</span>
+                                        </div>
+                                        <div className="flex items-center justify-between gap-2 text-fluid-xs md:text-fluid-sm font-bold">
+                                            <span className="text-foos-blue truncate">{getTeamName(match.team1)}</span>
+                                            <span className="text-white font-mono tabular-nums flex-shrink-0">{match.team1.score} - {match.team2.score}</span>
+                                            <span className="text-foos-red truncate text-right">{getTeamName(match.team2)}</span>
+                                        </div>
+                                    </button>
+                                ) : (
+                                    <div key={table} className="bg-slate-900/40 border border-dashed border-slate-800 rounded-card p-2 md:p-3 flex items-center justify-between">
+                                        <div>
+                                            <div className="text-2xs text-slate-500 font-bold uppercase tracking-wider">Table {table}</div>
+                                            <div className="text-fluid-xs text-slate-600">Free</div>
+                                        </div>
+                                        {!isComplete && table <= settings.tableCount && (
+                                            <button
+                                                onClick={() => onStartMatch(previewMatch ?? undefined, table)}
+                                                disabled={!canStartMatch}
+                                                className="flex items-center gap-1.5 text-foos-accent hover:bg-slate-800 rounded-button px-2 md:px-3 py-1 md:py-1.5 text-2xs md:text-fluid-xs font-bold uppercase tracking-wider transition disabled:opacity-50 active:scale-95"
+                                            >
+                                                <Play className="w-3 h-3 fill-current" /> Start
+                                            </button>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                     </div>
+                )}
+
+                {/* KNOCKOUT BRACKET */}
+                {bracket && (
+                    <BracketView
+                        bracket={bracket}
+                        matches={matches}
+                        players={players}
+                        onCancelKnockout={onCancelKnockout}
+                    />
+                )}
+
+                {/* CHALLENGER QUEUE */}
+                {isKingOfTable && !isComplete && (
                      <div className="max-w-3xl w-full mx-auto">
                         <h3 className="text-slate-500 font-bold uppercase text-2xs md:text-fluid-xs tracking-wider flex items-center gap-2 mb-2 md:mb-3">
-                            <List className="w-3 h-3 md:w-4 md:h-4" /> Upcoming Schedule
+                            <Crown className="w-3 h-3 md:w-4 md:h-4" /> Challenger Queue
                         </h3>
+                        {(currentReign || longestReign) && (
+                            <div className="grid grid-cols-2 gap-2 mb-2 md:mb-3">
+                                {currentReign && (
+                                    <div className="bg-slate-900/80 border border-slate-800 rounded-card p-2 md:p-3">
+                                        <div className="text-2xs text-slate-500 font-bold uppercase tracking-wider">On the Table</div>
+                                        <div className="text-fluid-xs md:text-fluid-sm font-bold text-slate-200 truncate">{getReignNames(currentReign.playerIds)}</div>
+                                        <div className="text-2xs text-foos-accent font-bold">{currentReign.wins} {currentReign.wins === 1 ? 'win' : 'wins'} in a row</div>
+                                    </div>
+                                )}
+                                {longestReign && (
+                                    <div className="bg-slate-900/80 border border-foos-gold/30 rounded-card p-2 md:p-3">
+                                        <div className="text-2xs text-slate-500 font-bold uppercase tracking-wider">Longest Reign</div>
+                                        <div className="text-fluid-xs md:text-fluid-sm font-bold text-foos-gold truncate">{getReignNames(longestReign.playerIds)}</div>
+                                        <div className="text-2xs text-foos-gold/80 font-bold">{longestReign.wins} {longestReign.wins === 1 ? 'win' : 'wins'}</div>
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                        {challengers.length === 0 ? (
+                            <p className="text-slate-600 text-fluid-xs">Nobody waiting.</p>
+                        ) : (
+                            <div className="flex flex-wrap gap-1.5 md:gap-2">
+                                {challengers.map((challenger, i) => (
+                                    <div
+                                        key={challenger.id}
+                                        className={`flex items-center gap-1.5 rounded-button px-2 md:px-3 py-1 md:py-1.5 border text-fluid-xs font-bold ${
+                                            i < nextChallengerCount ? 'bg-foos-brand/10 border-foos-brand/40 text-white' : 'bg-slate-900/80 border-slate-800 text-slate-400'
+                                        }`}
+                                    >
+                                        <span className="text-slate-600 font-mono">#{i + 1}</span>
+                                        <span className="truncate max-w-[120px]">{challenger.name}</span>
+                                        {i < nextChallengerCount && <span className="text-2xs text-foos-brand uppercase tracking-wider">Next</span>}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                     </div>
+                )}
+
+                {/* SCHEDULE LIST */}
+                {(queuedMatches.length > 0 || (!isComplete && !isKingOfTable)) && (
+                     <div className="max-w-3xl w-full mx-auto">
+                        <div className="flex items-center justify-between mb-2 md:mb-3">
+                            <h3 className="text-slate-500 font-bold uppercase text-2xs md:text-fluid-xs tracking-wider flex items-center gap-2">
+                                <List className="w-3 h-3 md:w-4 md:h-4" /> Upcoming Schedule
+                            </h3>
+                            {!isComplete && (
+                                <button
+                                    onClick={() => setMatchEditor({ match: null })}
+                                    className="flex items-center gap-1.5 text-slate-500 hover:text-foos-accent hover:bg-slate-800/50 rounded-button px-2 py-1 text-2xs md:text-fluid-xs font-bold uppercase tracking-wider transition active:scale-95"
+                                >
+                                    <Plus className="w-3 h-3 md:w-4 md:h-4" /> Custom Match
+                                </button>
+                            )}
+                        </div>
+                        {queuedMatches.length === 0 && (
+                            <p className="text-slate-600 text-fluid-xs">Queue is empty.</p>
+                        )}
                         <div className="space-y-1.5 md:space-y-2">
-                            {scheduledMatches.map((match, i) => {
-                                const names1 = getTeamNames(match.team1);
-                                const names2 = getTeamNames(match.team2);
+                            {queuedMatches.map((match, i) => {
                                 return (
-                                    <div key={match.id} className="bg-slate-900/80 border border-slate-800 rounded-card p-2 md:p-3 flex items-center justify-between hover:border-slate-700 transition">
+                                    <div
+                                        key={match.id}
+                                        draggable
+                                        onDragStart={() => setDraggedMatchId(match.id)}
+                                        onDragEnd={() => setDraggedMatchId(null)}
+                                        onDragOver={e => e.preventDefault()}
+                                        onDrop={() => {
+                                            if (draggedMatchId) onMoveQueuedMatch(draggedMatchId, i);
+                                            setDraggedMatchId(null);
+                                        }}
+                                        className={`bg-slate-900/80 border rounded-card p-2 md:p-3 flex items-center justify-between hover:border-slate-700 transition ${
+                                            match.isPinned ? 'border-foos-accent/40' : 'border-slate-800'
+                                        } ${draggedMatchId === match.id ? 'opacity-50' : ''}`}
+                                    >
+                                        <GripVertical className="w-3 h-3 md:w-4 md:h-4 text-slate-700 cursor-grab flex-shrink-0" />
                                         <div className="text-slate-600 font-mono text-2xs md:text-fluid-xs font-bold w-6 md:w-8">#{i+1}</div>
-                                        <div className="flex-1 flex flex-col md:flex-row justify-between items-start md:items-center px-2 md:px-4 gap-0.5 md:gap-0">
+                                        {settings.tableCount > 1 && match.table && (
+                                            <div className="text-2xs text-slate-500 font-bold uppercase tracking-wider flex-shrink-0">T{match.table}</div>
+                                        )}
+                                        <div className="flex-1 flex flex-col md:flex-row justify-between items-start md:items-center px-2 md:px-4 gap-0.5 md:gap-0 min-w-0">
                                             <div className="text-fluid-xs md:text-fluid-sm font-bold text-foos-blue truncate max-w-[100px] md:max-w-none">
-                                                {isPositionMode ? `${names1.p1}/${names1.p2}` : `${names1.p1} & ${names1.p2}`}
+                                                {getTeamName(match.team1)}
                                             </div>
                                             <div className="text-2xs text-slate-700 font-bold hidden md:block px-2">VS</div>
                                             <div className="text-fluid-xs md:text-fluid-sm font-bold text-foos-red md:text-right truncate max-w-[100px] md:max-w-none">
-                                                {isPositionMode ? `${names2.p1}/${names2.p2}` : `${names2.p1} & ${names2.p2}`}
+                                                {getTeamName(match.team2)}
                                             </div>
                                         </div>
+                                        <div className="flex items-center flex-shrink-0">
+                                            <button
+                                                onClick={() => onTogglePinMatch(match.id)}
+                                                className={`p-1.5 rounded-button transition active:scale-95 ${match.isPinned ? 'text-foos-accent hover:bg-slate-800' : 'text-slate-600 hover:text-white hover:bg-slate-800'}`}
+                                                title={match.isPinned ? 'Unpin (cleared with the queue)' : 'Pin (kept when the queue is cleared)'}
+                                            >
+                                                <Pin className="w-3 h-3 md:w-4 md:h-4" />
+                                            </button>
+                                            <button
+                                                onClick={() => setMatchEditor({ match })}
+                                                className="p-1.5 rounded-button text-slate-600 hover:text-white hover:bg-slate-800 transition active:scale-95"
+                                                title="Edit players"
+                                            >
+                                                <Pencil className="w-3 h-3 md:w-4 md:h-4" />
+                                            </button>
+                                            <button
+                                                onClick={() => onDeleteQueuedMatch(match.id)}
+                                                className="p-1.5 rounded-button text-slate-600 hover:text-red-400 hover:bg-slate-800 transition active:scale-95"
+                                                title="Remove from queue"
+                                            >
+                                                <Trash2 className="w-3 h-3 md:w-4 md:h-4" />
+                                            </button>
+                                        </div>
                                     </div>
                                 )
                             })}
@@ -682,9 +1156,7 @@ const Dashboard: React.FC<Props> = ({
                 <div className="space-y-2 xl:space-y-3 overflow-y-auto flex-1">
                     {recentMatches.map(match => {
                         const t1Win = match.winner === 'team1';
-                        const names1 = getTeamNames(match.team1);
-                        const names2 = getTeamNames(match.team2);
-                        const isUnicorn = match.team1.score === 0 || match.team2.score === 0;
+                        const isUnicorn = isUnicornMatch(match, settings);
 
                         return (
                             <div key={match.id} onClick={() => setShowHistory(true)} className="bg-slate-900 rounded-card p-2.5 xl:p-3 border border-slate-800 cursor-pointer hover:border-slate-600 hover:shadow-card-hover transition group relative overflow-hidden">
@@ -706,11 +1178,11 @@ const Dashboard: React.FC<Props> = ({
                                 <div className="text-fluid-xs space-y-1">
                                     <div className={`flex justify-between ${t1Win ? 'text-slate-300' : 'text-slate-600'}`}>
                                         <span className="font-bold">Blue</span>
-                                        <span className="truncate max-w-[100px] xl:max-w-[140px]">{isPositionMode ? `${names1.p1}/${names1.p2}` : `${names1.p1} & ${names1.p2}`}</span>
+                                        <span className="truncate max-w-[100px] xl:max-w-[140px]">{getTeamName(match.team1)}</span>
                                     </div>
                                     <div className={`flex justify-between ${!t1Win ? 'text-slate-300' : 'text-slate-600'}`}>
                                         <span className="font-bold">Red</span>
-                                        <span className="truncate max-w-[100px] xl:max-w-[140px]">{isPositionMode ? `${names2.p1}/${names2.p2}` : `${names2.p1} & ${names2.p2}`}</span>
+                                        <span className="truncate max-w-[100px] xl:max-w-[140px]">{getTeamName(match.team2)}</span>
                                     </div>
                                 </div>
                             </div>
@@ -736,7 +1208,7 @@ const Dashboard: React.FC<Props> = ({
                      </div>
                      <h2 className="text-fluid-lg md:text-fluid-xl font-black text-white mb-2 uppercase italic">Cancel Round?</h2>
                      <p className="text-slate-400 text-fluid-sm mb-6">
-                         This will clear <span className="text-white font-bold">{scheduledMatches.length}</span> scheduled matches from the queue. You cannot undo this.
+                         This will clear <span className="text-white font-bold">{unpinnedCount}</span> scheduled matches from the queue{unpinnedCount < queuedMatches.length ? ' (pinned matches stay)' : ''}. You cannot undo this.
                      </p>
                      <div className="flex gap-3 w-full">
                          <button
@@ -757,6 +1229,127 @@ const Dashboard: React.FC<Props> = ({
         </div>
       )}
 
+      {/* Match Editor Modal */}
+      {matchEditor && (
+        <MatchEditorModal
+          match={matchEditor.match}
+          players={players}
+          isSingles={isSingles}
+          isPositionMode={isPositionMode}
+          onSave={onSaveQueuedMatch}
+          onClose={() => setMatchEditor(null)}
+        />
+      )}
+
+      {/* Knockout Setup Modal */}
+      {showKnockoutSetup && (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={() => setShowKnockoutSetup(false)}>
+             <div className="bg-foos-panel border border-slate-700 rounded-card-lg w-full max-w-sm p-6 shadow-modal max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+                 <div className="flex items-center gap-2 mb-4">
+                     <GitBranch className="w-5 h-5 text-foos-brand" />
+                     <h2 className="text-fluid-lg md:text-fluid-xl font-black text-white uppercase italic">Knockout Stage</h2>
+                 </div>
+
+                 <div className="text-slate-500 text-2xs font-bold uppercase tracking-wider mb-2">{isFixedTeams ? 'Seeded Players (in teams)' : 'Seeded Players'}</div>
+                 <div className="grid grid-cols-3 gap-2 mb-4">
+                     {knockoutSizes.map(size => (
+                         <button
+                             key={size}
+                             onClick={() => setKnockoutSize(size)}
+                             className={`py-2 rounded-button font-bold text-fluid-sm transition border ${
+                                 knockoutSize === size
+                                     ? 'bg-foos-accent/10 border-foos-accent text-foos-accent'
+                                     : 'bg-slate-900 border-slate-800 text-slate-400 hover:border-slate-600'
+                             }`}
+                         >
+                             Top {size}
+                         </button>
+                     ))}
+                 </div>
+
+                 <div className="text-slate-500 text-2xs font-bold uppercase tracking-wider mb-2">Elimination</div>
+                 <div className="grid grid-cols-2 gap-2 mb-4">
+                     {(['single', 'double'] as const).map(elimination => (
+                         <button
+                             key={elimination}
+                             onClick={() => {
+                                 setKnockoutElimination(elimination);
+                                 if (elimination === 'double') setKnockoutPairing('fixed');
+                             }}
+                             className={`p-2 rounded-button text-left transition border ${
+                                 knockoutElimination === elimination
+                                     ? 'bg-foos-accent/10 border-foos-accent'
+                                     : 'bg-slate-900 border-slate-800 hover:border-slate-600'
+                             }`}
+                         >
+                             <div className={`font-bold text-fluid-sm ${knockoutElimination === elimination ? 'text-foos-accent' : 'text-slate-400'}`}>
+                                 {elimination === 'single' ? 'Single' : 'Double'}
+                             </div>
+                             <div className="text-slate-500 text-2xs">
+                                 {elimination === 'single' ? 'One loss and you\'re out' : 'Losers\' bracket and grand final reset'}
+                             </div>
+                         </button>
+                     ))}
+                 </div>
+
+                 {!isFixedTeams && !isSingles && (
+                     <>
+                         <div className="text-slate-500 text-2xs font-bold uppercase tracking-wider mb-2">Pairing</div>
+                         <div className="grid grid-cols-2 gap-2 mb-4">
+                             {(['fixed', 'rotating'] as const).map(pairing => (
+                                 <button
+                                     key={pairing}
+                                     onClick={() => setKnockoutPairing(pairing)}
+                                     disabled={pairing === 'rotating' && knockoutElimination === 'double'}
+                                     className={`p-2 rounded-button text-left transition border disabled:opacity-40 ${
+                                         knockoutPairing === pairing
+                                             ? 'bg-foos-accent/10 border-foos-accent'
+                                             : 'bg-slate-900 border-slate-800 hover:border-slate-600'
+                                     }`}
+                                 >
+                                     <div className={`font-bold text-fluid-sm ${knockoutPairing === pairing ? 'text-foos-accent' : 'text-slate-400'}`}>
+                                         {pairing === 'fixed' ? 'Fixed Pairs' : 'Rotating Pairs'}
+                                     </div>
+                                     <div className="text-slate-500 text-2xs">
+                                         {pairing === 'fixed' ? 'Best seed partners worst seed' : 'Winners re-pair each round'}
+                                     </div>
+                                 </button>
+                             ))}
+                         </div>
+                     </>
+                 )}
+
+                 <div className="bg-slate-900 rounded-card border border-slate-800 p-2 mb-6 space-y-1">
+                     {knockoutSeeds.map((seed, i) => (
+                         <div key={seed.id} className="flex items-center gap-2 text-fluid-xs">
+                             <span className="text-slate-600 font-mono w-5">{i + 1}</span>
+                             <span className="text-slate-200 font-bold truncate flex-1">{'name' in seed ? seed.name : seed.nickname}</span>
+                             <span className="text-foos-accent font-mono">{seed.points}</span>
+                         </div>
+                     ))}
+                 </div>
+
+                 <div className="flex gap-3 w-full">
+                     <button
+                         onClick={() => setShowKnockoutSetup(false)}
+                         className="flex-1 bg-slate-800 hover:bg-slate-700 text-white font-bold py-3 rounded-button transition active:scale-95"
+                     >
+                         Cancel
+                     </button>
+                     <button
+                         onClick={() => {
+                             onStartKnockout(knockoutSize, knockoutPairing, knockoutElimination);
+                             setShowKnockoutSetup(false);
+                         }}
+                         className="flex-1 bg-gradient-to-r from-foos-brand to-red-500 hover:from-orange-400 hover:to-red-400 text-white font-bold py-3 rounded-button shadow-button-brand transition active:scale-95"
+                     >
+                         Start
+                     </button>
+                 </div>
+             </div>
+        </div>
+      )}
+
       {/* Player Stats Modal */}
       {selectedPlayer && (
         <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={() => setSelectedPlayer(null)}>
@@ -857,12 +1450,35 @@ const Dashboard: React.FC<Props> = ({
                                      </div>
                                 </div>
 
+                                {selectedGlobalPlayer && (
+                                    <div className="text-left bg-slate-900 p-2 md:p-2.5 landscape:p-2 rounded-card border border-slate-800 mb-4 landscape:mb-3">
+                                        <div className="flex items-baseline justify-between mb-1.5">
+                                            <h4 className="text-2xs font-bold text-slate-500 uppercase tracking-wider">RATING</h4>
+                                            <div className="flex items-baseline gap-2">
+                                                <span className="text-fluid-base md:text-fluid-lg landscape:text-fluid-base font-bold font-mono text-white">{selectedGlobalPlayer.rating}</span>
+                                                {lastRatingChange && (
+                                                    <span className={`text-2xs font-mono font-bold ${lastRatingChange.delta >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                                                        {lastRatingChange.delta >= 0 ? '+' : ''}{lastRatingChange.delta}
+                                                    </span>
+                                                )}
+                                            </div>
+                                        </div>
+                                        <RatingChart history={selectedGlobalPlayer.ratingHistory} />
+                                    </div>
+                                )}
+
                                 <div className="grid grid-cols-2 gap-2 md:gap-3 landscape:gap-2 mb-4 landscape:mb-3">
                                     <div className="text-left bg-slate-900 p-2 md:p-2.5 landscape:p-2 rounded-card border border-slate-800">
                                         <h4 className="text-2xs font-bold text-slate-500 mb-1.5 uppercase tracking-wider">POSITIONS</h4>
                                         <div className="space-y-0.5 text-fluid-sm landscape:text-fluid-xs">
                                             <div className="flex justify-between text-slate-300"><span>Attack:</span> <span className="font-mono text-white">{selectedPlayer.attackPlayed}</span></div>
                                             <div className="flex justify-between text-slate-300"><span>Defense:</span> <span className="font-mono text-white">{selectedPlayer.defensePlayed}</span></div>
+                                            {selectedGlobalPlayer && (
+                                                <>
+                                                    <div className="flex justify-between text-slate-300 pt-1 mt-1 border-t border-slate-800" title="Attack rating"><span className="flex items-center gap-1"><Sword className="w-3 h-3" /> Rating:</span> <span className={`font-mono ${selectedGlobalPlayer.attackRating >= selectedGlobalPlayer.defenseRating ? 'text-foos-accent' : 'text-white'}`}>{selectedGlobalPlayer.attackRating}</span></div>
+                                                    <div className="flex justify-between text-slate-300" title="Defense rating"><span className="flex items-center gap-1"><Shield className="w-3 h-3" /> Rating:</span> <span className={`font-mono ${selectedGlobalPlayer.defenseRating > selectedGlobalPlayer.attackRating ? 'text-foos-accent' : 'text-white'}`}>{selectedGlobalPlayer.defenseRating}</span></div>
+                                                </>
+                                            )}
                                         </div>
                                     </div>
                                     <div className="text-left bg-slate-900 p-2 md:p-2.5 landscape:p-2 rounded-card border border-slate-800">
@@ -870,10 +1486,27 @@ const Dashboard: React.FC<Props> = ({
                                         <div className="space-y-0.5 text-fluid-sm landscape:text-fluid-xs">
                                             <div className="flex justify-between text-slate-300"><span>Scored:</span> <span className="font-mono text-foos-accent">{selectedPlayer.goalsScored}</span></div>
                                             <div className="flex justify-between text-slate-300"><span>Conceded:</span> <span className="font-mono text-foos-red">{selectedPlayer.goalsConceded}</span></div>
+                                            {goalStats[selectedPlayer.id] && (
+                                                <>
+                                                    <div
+                                                        className="flex justify-between text-slate-300 pt-1 mt-1 border-t border-slate-800"
+                                                        title={(Object.keys(ROD_LABELS) as Rod[]).filter(rod => goalStats[selectedPlayer.id].rods[rod]).map(rod => `${ROD_LABELS[rod]}: ${goalStats[selectedPlayer.id].rods[rod]}`).join(', ') || 'Goals scored personally'}
+                                                    ><span>Personal:</span> <span className="font-mono text-white">{goalStats[selectedPlayer.id].goals}</span></div>
+                                                    <div className="flex justify-between text-slate-300"><span>Own goals:</span> <span className="font-mono text-white">{goalStats[selectedPlayer.id].ownGoals}</span></div>
+                                                </>
+                                            )}
                                         </div>
                                     </div>
                                 </div>
 
+                                {/* Check-in */}
+                                {livePlayer && (
+                                    <div className="flex justify-between text-2xs text-slate-500 font-bold uppercase tracking-wider mb-2">
+                                        <span>{livePlayer.checkedInAt ? `Checked in ${new Date(livePlayer.checkedInAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}` : 'Away'}</span>
+                                        <span className="font-mono">{Math.round(getMinutesPresent(livePlayer))} min present</span>
+                                    </div>
+                                )}
+
                                 {/* Availability Toggle */}
                                 <button
                                     onClick={() => {
@@ -907,11 +1540,11 @@ const Dashboard: React.FC<Props> = ({
                                         const opponentTeam = isTeam1 ? match.team2 : match.team1;
                                         const isWinner = (isTeam1 && match.winner === 'team1') || (!isTeam1 && match.winner === 'team2');
                                         const isAttacker = playerTeam.attackerId === selectedPlayer.id;
+                                        const isSinglesMatch = isSinglesTeam(playerTeam);
                                         const teammateId = isAttacker ? playerTeam.defenderId : playerTeam.attackerId;
                                         const teammate = players.find(p => p.id === teammateId);
-                                        const opponent1 = players.find(p => p.id === opponentTeam.attackerId);
-                                        const opponent2 = players.find(p => p.id === opponentTeam.defenderId);
-                                        const isUnicorn = playerTeam.score === settings.winningScore && opponentTeam.score === 0;
+                                        const opponents = getTeamPlayerIds(opponentTeam).map(id => players.find(p => p.id === id));
+                                        const isUnicorn = isWinner && isUnicornMatch(match, settings);
 
                                         return (
                                             <div key={match.id} className={`bg-slate-900 rounded-card p-2.5 md:p-3 border ${isWinner ? 'border-emerald-500/30' : 'border-slate-800'} text-left relative`}>
@@ -930,42 +1563,39 @@ const Dashboard: React.FC<Props> = ({
                                                         <span className={!isWinner ? 'text-red-400' : 'text-slate-500'}>{opponentTeam.score}</span>
                                                     </span>
                                                 </div>
-                                                <div className="flex items-center justify-between text-fluid-xs">
-                                                    <div className="flex items-center gap-2">
-                                                        <span className="text-slate-500">With:</span>
-                                                        <div className="flex items-center gap-1">
-                                                            <div className="w-5 h-5 rounded-full bg-slate-800 overflow-hidden border border-slate-700">
-                                                                {teammate?.photoUrl ? (
-                                                                    <img src={teammate.photoUrl} className="w-full h-full object-cover" />
-                                                                ) : (
-                                                                    <div className="flex items-center justify-center h-full text-2xs">{teammate?.nickname.charAt(0)}</div>
-                                                                )}
+                                                {!isSinglesMatch && (
+                                                    <div className="flex items-center justify-between text-fluid-xs">
+                                                        <div className="flex items-center gap-2">
+                                                            <span className="text-slate-500">With:</span>
+                                                            <div className="flex items-center gap-1">
+                                                                <div className="w-5 h-5 rounded-full bg-slate-800 overflow-hidden border border-slate-700">
+                                                                    {teammate?.photoUrl ? (
+                                                                        <img src={teammate.photoUrl} className="w-full h-full object-cover" />
+                                                                    ) : (
+                                                                        <div className="flex items-center justify-center h-full text-2xs">{teammate?.nickname.charAt(0)}</div>
+                                                                    )}
+                                                                </div>
+                                                                <span className="text-slate-300 font-medium">{teammate?.nickname}</span>
                                                             </div>
-                                                            <span className="text-slate-300 font-medium">{teammate?.nickname}</span>
                                                         </div>
+                                                        {isPositionMode && (
+                                                            <span className="text-2xs text-slate-500 uppercase">{isAttacker ? 'ATK' : 'DEF'}</span>
+                                                        )}
                                                     </div>
-                                                    {isPositionMode && (
-                                                        <span className="text-2xs text-slate-500 uppercase">{isAttacker ? 'ATK' : 'DEF'}</span>
-                                                    )}
-                                                </div>
-                                                <div className="flex items-center gap-2 mt-1 text-fluid-xs">
+                                                )}
+                                                <div className={`flex items-center gap-2 text-fluid-xs ${isSinglesMatch ? '' : 'mt-1'}`}>
                                                     <span className="text-slate-500">vs:</span>
                                                     <div className="flex items-center gap-1">
-                                                        <div className="w-5 h-5 rounded-full bg-slate-800 overflow-hidden border border-slate-700">
-                                                            {opponent1?.photoUrl ? (
-                                                                <img src={opponent1.photoUrl} className="w-full h-full object-cover" />
-                                                            ) : (
-                                                                <div className="flex items-center justify-center h-full text-2xs">{opponent1?.nickname.charAt(0)}</div>
-                                                            )}
-                                                        </div>
-                                                        <div className="w-5 h-5 rounded-full bg-slate-800 overflow-hidden border border-slate-700">
-                                                            {opponent2?.photoUrl ? (
-                                                                <img src={opponent2.photoUrl} className="w-full h-full object-cover" />
-                                                            ) : (
-                                                                <div className="flex items-center justify-center h-full text-2xs">{opponent2?.nickname.charAt(0)}</div>
-                                                            )}
-                                                        </div>
-                                                        <span className="text-slate-300 font-medium">{opponent1?.nickname} & {opponent2?.nickname}</span>
+                                                        {opponents.map((opponent, idx) => (
+                                                            <div key={idx} className="w-5 h-5 rounded-full bg-slate-800 overflow-hidden border border-slate-700">
+                                                                {opponent?.photoUrl ? (
+                                                                    <img src={opponent.photoUrl} className="w-full h-full object-cover" />
+                                                                ) : (
+                                                                    <div className="flex items-center justify-center h-full text-2xs">{opponent?.nickname.charAt(0)}</div>
+                                                                )}
+                                                            </div>
+                                                        ))}
+                                                        <span className="text-slate-300 font-medium">{opponents.map(o => o?.nickname).join(' & ')}</span>
                                                     </div>
                                                 </div>
                                             </div>
@@ -995,18 +1625,19 @@ const Dashboard: React.FC<Props> = ({
                     <div className="space-y-3 md:space-y-4">
                         {completedMatches.map(match => {
                             const t1Win = match.winner === 'team1';
-                            const isUnicorn = match.team1.score === 0 || match.team2.score === 0;
+                            const isUnicorn = isUnicornMatch(match, settings);
+                            const isSinglesMatch = isSinglesTeam(match.team1);
 
-                            const renderPlayer = (id: string, role: 'Att' | 'Def') => {
+                            const renderPlayer = (id: string, role: 'Att' | 'Def', isRed = false) => {
                                 const p = players.find(pl => pl.id === id);
                                 return (
-                                    <div className="flex items-center gap-2 min-w-[100px] md:min-w-[140px]">
+                                    <div key={id} className={`flex items-center gap-2 min-w-[100px] md:min-w-[140px] ${isRed ? 'flex-row-reverse' : ''}`}>
                                         <div className="w-7 h-7 md:w-8 md:h-8 rounded-full bg-slate-800 overflow-hidden border border-slate-700">
                                             {p?.photoUrl ? <img src={p.photoUrl} className="w-full h-full object-cover"/> : <div className="flex items-center justify-center h-full text-2xs">{p?.nickname.charAt(0)}</div>}
                                         </div>
                                         <div className="text-fluid-sm">
                                             <div className="font-bold leading-none text-slate-200">{p?.nickname}</div>
-                                            <div className="text-2xs text-slate-500 uppercase font-bold tracking-wider">{role}</div>
+                                            {!isSinglesMatch && <div className="text-2xs text-slate-500 uppercase font-bold tracking-wider">{role}</div>}
                                         </div>
                                     </div>
                                 )
@@ -1015,12 +1646,18 @@ const Dashboard: React.FC<Props> = ({
                             return (
                                 <div key={match.id} className="bg-slate-900 rounded-card p-3 md:p-4 border border-slate-800 flex flex-col md:flex-row items-center justify-between gap-4 md:gap-6 relative overflow-hidden">
                                     {isUnicorn && <div className="absolute top-2 md:top-3 left-1/2 -translate-x-1/2 bg-pink-500/10 text-pink-400 border border-pink-500/20 px-2 md:px-3 py-0.5 rounded-full text-2xs font-bold flex items-center gap-1 shadow-[0_0_10px_rgba(236,72,153,0.3)]"><Sparkles className="w-3 h-3"/> UNICORN MATCH</div>}
+                                    {(match.durationMs !== undefined || match.games) && (
+                                        <div className="absolute bottom-2 md:bottom-3 left-1/2 -translate-x-1/2 text-2xs text-slate-600 font-mono font-bold whitespace-nowrap">
+                                            {match.games && <span title="Game scores">{match.games.map(game => `${game.team1}-${game.team2}`).join(', ')}</span>}
+                                            {match.games && match.durationMs !== undefined && ' · '}
+                                            {match.durationMs !== undefined && <span title="Match length">{Math.max(1, Math.round(match.durationMs / 60000))} min</span>}
+                                        </div>
+                                    )}
 
                                     {/* Team 1 */}
                                     <div className={`flex flex-col gap-1.5 md:gap-2 ${t1Win ? 'opacity-100' : 'opacity-50 grayscale'}`}>
                                         <div className="text-foos-blue text-2xs md:text-fluid-xs font-black uppercase mb-0.5 md:mb-1 tracking-widest">BLUE TEAM</div>
-                                        {renderPlayer(match.team1.attackerId, 'Att')}
-                                        {renderPlayer(match.team1.defenderId, 'Def')}
+                                        {getTeamPlayerIds(match.team1).map((id, idx) => renderPlayer(id, idx === 0 ? 'Att' : 'Def'))}
                                     </div>
 
                                     {/* Score */}
@@ -1033,29 +1670,28 @@ const Dashboard: React.FC<Props> = ({
                                     {/* Team 2 */}
                                     <div className={`flex flex-col gap-1.5 md:gap-2 items-end text-right ${!t1Win ? 'opacity-100' : 'opacity-50 grayscale'}`}>
                                         <div className="text-foos-red text-2xs md:text-fluid-xs font-black uppercase mb-0.5 md:mb-1 tracking-widest">RED TEAM</div>
-                                        <div className="flex flex-row-reverse items-center gap-2 min-w-[100px] md:min-w-[140px]">
-                                            <div className="w-7 h-7 md:w-8 md:h-8 rounded-full bg-slate-800 overflow-hidden border border-slate-700">
-                                                {players.find(p => p.id === match.team2.attackerId)?.photoUrl ?
-                                                    <img src={players.find(p => p.id === match.team2.attackerId)?.photoUrl || ''} className="w-full h-full object-cover"/> :
-                                                    <div className="flex items-center justify-center h-full text-2xs">{players.find(p => p.id === match.team2.attackerId)?.nickname.charAt(0)}</div>}
-                                            </div>
-                                            <div className="text-fluid-sm">
-                                                <div className="font-bold leading-none text-slate-200">{players.find(p => p.id === match.team2.attackerId)?.nickname}</div>
-                                                <div className="text-2xs text-slate-500 uppercase font-bold tracking-wider">ATT</div>
-                                            </div>
-                                        </div>
-                                        <div className="flex flex-row-reverse items-center gap-2 min-w-[100px] md:min-w-[140px]">
-                                            <div className="w-7 h-7 md:w-8 md:h-8 rounded-full bg-slate-800 overflow-hidden border border-slate-700">
-                                                {players.find(p => p.id === match.team2.defenderId)?.photoUrl ?
-                                                    <img src={players.find(p => p.id === match.team2.defenderId)?.photoUrl || ''} className="w-full h-full object-cover"/> :
-                                                    <div className="flex items-center justify-center h-full text-2xs">{players.find(p => p.id === match.team2.defenderId)?.nickname.charAt(0)}</div>}
-                                            </div>
-                                            <div className="text-fluid-sm">
-                                                <div className="font-bold leading-none text-slate-200">{players.find(p => p.id === match.team2.defenderId)?.nickname}</div>
-                                                <div className="text-2xs text-slate-500 uppercase font-bold tracking-wider">DEF</div>
-                                            </div>
-                                        </div>
+                                        {getTeamPlayerIds(match.team2).map((id, idx) => renderPlayer(id, idx === 0 ? 'Att' : 'Def', true))}
                                     </div>
+
+                                    {/* Correct or delete (knockout results only until the next match is played) */}
+                                    {(!match.bracket || canChangeBracketResult(matches, match)) && (
+                                        <div className="flex md:flex-col gap-1">
+                                            <button
+                                                onClick={() => setResultEditor(match)}
+                                                className="p-1.5 rounded-button text-slate-600 hover:text-white hover:bg-slate-800 transition active:scale-95"
+                                                title="Correct result"
+                                            >
+                                                <Pencil className="w-3.5 h-3.5" />
+                                            </button>
+                                            <button
+                                                onClick={() => setDeleteResultId(match.id)}
+                                                className="p-1.5 rounded-button text-slate-600 hover:text-red-400 hover:bg-red-500/10 transition active:scale-95"
+                                                title="Delete match"
+                                            >
+                                                <Trash2 className="w-3.5 h-3.5" />
+                                            </button>
+                                        </div>
+                                    )}
                                 </div>
                             )
                         })}
@@ -1065,6 +1701,53 @@ const Dashboard: React.FC<Props> = ({
         </div>
       )}
 
+      {/* Result Editor Modal */}
+      {resultEditor && (
+        <MatchEditorModal
+          match={resultEditor}
+          players={players}
+          isSingles={isSinglesTeam(resultEditor.team1)}
+          isPositionMode={isPositionMode}
+          isResult
+          onSave={onSaveResult}
+          onClose={() => setResultEditor(null)}
+        />
+      )}
+
+      {/* Delete Result Confirmation Modal */}
+      {deleteResultId && (
+        <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={() => setDeleteResultId(null)}>
+          <div className="bg-foos-panel border border-slate-700 rounded-card-lg w-full max-w-sm p-6 shadow-modal" onClick={e => e.stopPropagation()}>
+            <div className="flex flex-col items-center text-center">
+              <div className="w-16 h-16 bg-red-500/10 rounded-full flex items-center justify-center mb-4 text-red-500">
+                <Trash2 className="w-8 h-8" />
+              </div>
+              <h2 className="text-fluid-xl font-black text-white mb-2 uppercase italic">Delete Match?</h2>
+              <p className="text-slate-400 text-fluid-sm mb-6">
+                Its result comes out of every player's stats and ratings, and the other matches are rescored with the current settings. Fixtures and knockout matches go back into the queue to be played again.
+              </p>
+              <div className="flex gap-3 w-full">
+                <button
+                  onClick={() => setDeleteResultId(null)}
+                  className="flex-1 bg-slate-800 hover:bg-slate-700 text-white font-bold py-3 rounded-button transition active:scale-95"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => {
+                    onDeleteResult(deleteResultId);
+                    setDeleteResultId(null);
+                  }}
+                  className="flex-1 bg-red-500 hover:bg-red-600 text-white font-bold py-3 rounded-button transition shadow-lg shadow-red-500/20 active:scale-95"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Avatar Editor Modal */}
       {editingAvatarPlayer && (
         <AvatarEditor
@@ -1091,6 +1774,7 @@ const Dashboard: React.FC<Props> = ({
         onClose={() => setShowOptionsModal(false)}
         settings={settings}
         onSave={onUpdateSettings}
+        players={players}
         hasCompletedMatches={completedMatches.length > 0}
       />
 
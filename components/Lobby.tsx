@@ -279,7 +279,7 @@ const Lobby: React.FC<Props> = ({
                             </div>
                           )}
                           <div className="text-fluid-xs text-slate-500">
-                            {player.lifetimeGamesPlayed} games · {player.lifetimeWins} wins
+                            {player.lifetimeGamesPlayed} games · {player.lifetimeWins} wins · <span className="font-mono font-bold text-foos-accent" title="Elo rating">{player.rating}</span>
                           </div>
                         </div>
                       </div>
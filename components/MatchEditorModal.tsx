@@ -0,0 +1,187 @@
+import React, { useState } from 'react';
+import { GameScore, Match, PlayerView, Team } from '../types';
+import { generateId } from '../services/tournamentLogic';
+import { validateMatch } from '../services/queueService';
+import { validateResult, getResultWinner } from '../services/resultService';
+import { X } from 'lucide-react';
+
+interface Props {
+  match: Match | null;        // Queued match to edit, or null to build a new one
+  players: PlayerView[];
+  isSingles: boolean;
+  isPositionMode: boolean;
+  isResult?: boolean;         // Correct a completed match: its players and scores (the winner follows)
+  onSave: (match: Match) => boolean;
+  onClose: () => void;
+}
+
+type Slot = { team: 'team1' | 'team2', position: 'attackerId' | 'defenderId' };
+
+const createEmptyMatch = (): Match => ({
+  id: generateId(),
+  status: 'scheduled',
+  timestamp: Date.now(),
+  team1: { attackerId: '', defenderId: '', score: 0 },
+  team2: { attackerId: '', defenderId: '', score: 0 },
+});
+
+const sumScores = (games: GameScore[], team: 'team1' | 'team2') => games.reduce((sum, game) => sum + game[team], 0);
+
+// Edit the players of a queued match, or hand-build a new one from the roster.
+// For a completed match, correct the result as well.
+const MatchEditorModal: React.FC<Props> = ({ match, players, isSingles, isPositionMode, isResult = false, onSave, onClose }) => {
+  const [draft, setDraft] = useState<Match>(() => match ?? createEmptyMatch());
+  const error = isResult ? validateResult(draft, players, isSingles) : validateMatch(draft, players, isSingles);
+
+  // Results: a score per game (one game unless the match was a series)
+  const gameScores: GameScore[] = draft.games ?? [{ team1: draft.team1.score, team2: draft.team2.score }];
+
+  const slots: Slot[] = isSingles
+    ? [{ team: 'team1', position: 'attackerId' }, { team: 'team2', position: 'attackerId' }]
+    : [
+        { team: 'team1', position: 'attackerId' },
+        { team: 'team1', position: 'defenderId' },
+        { team: 'team2', position: 'attackerId' },
+        { team: 'team2', position: 'defenderId' },
+      ];
+
+  const getSlotLabel = ({ team, position }: Slot) => {
+    const side = team === 'team1' ? 'Blue' : 'Red';
+    if (isSingles) return side;
+    if (isPositionMode) return `${side} ${position === 'attackerId' ? 'Attack' : 'Defense'}`;
+    return `${side} ${position === 'attackerId' ? '1' : '2'}`;
+  };
+
+  // Singles: the one player fills both slots
+  const handleSelect = ({ team, position }: Slot, playerId: string) => {
+    setDraft(prev => {
+      const updated: Team = isSingles
+        ? { ...prev[team], attackerId: playerId, defenderId: playerId }
+        : { ...prev[team], [position]: playerId };
+      return { ...prev, [team]: updated };
+    });
+  };
+
+  // New scores update the totals, and the winner follows whoever now leads (by games won, in a series)
+  const handleScoreChange = (gameIndex: number, team: 'team1' | 'team2', value: string) => {
+    const score = value === '' ? 0 : Number(value);
+    setDraft(prev => {
+      const games = (prev.games ?? [{ team1: prev.team1.score, team2: prev.team2.score }])
+        .map((game, i) => i === gameIndex ? { ...game, [team]: score } : game);
+      const updated: Match = {
+        ...prev,
+        games: prev.games ? games : undefined,
+        team1: { ...prev.team1, score: sumScores(games, 'team1') },
+        team2: { ...prev.team2, score: sumScores(games, 'team2') },
+      };
+      return { ...updated, winner: getResultWinner(updated) };
+    });
+  };
+
+  const handleSave = () => {
+    if (onSave(draft)) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-foos-panel border border-slate-700 rounded-card-lg w-full max-w-sm shadow-modal max-h-[90vh] overflow-y-auto"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex justify-between items-center p-4 border-b border-slate-800">
+          <h2 className="text-fluid-lg font-black text-white uppercase italic tracking-wide">{isResult ? 'Edit Result' : match ? 'Edit Match' : 'Custom Match'}</h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3">
+          {slots.map(slot => {
+            const selectedId = draft[slot.team][slot.position];
+            return (
+              <label key={`${slot.team}-${slot.position}`} className="block">
+                <span className={`text-2xs font-bold uppercase tracking-wider ${slot.team === 'team1' ? 'text-foos-blue' : 'text-foos-red'}`}>
+                  {getSlotLabel(slot)}
+                </span>
+                <select
+                  value={selectedId}
+                  onChange={e => handleSelect(slot, e.target.value)}
+                  className="mt-1 w-full bg-slate-900 border border-slate-700 rounded-button px-3 py-2 text-white text-fluid-sm focus:border-foos-accent focus:outline-none"
+                >
+                  <option value="">Select a player</option>
+                  {players.filter(p => isResult || p.isAvailable || p.id === selectedId).map(p => (
+                    <option key={p.id} value={p.id}>
+                      {p.nickname}{p.isAvailable || isResult ? '' : ' (unavailable)'}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            );
+          })}
+
+          {isResult && (
+            <div className="space-y-2 pt-1">
+              {gameScores.map((game, gameIndex) => (
+                <div key={gameIndex} className="flex items-center gap-2">
+                  <span className="w-16 text-2xs font-bold uppercase tracking-wider text-slate-500">
+                    {draft.games ? `Game ${gameIndex + 1}` : 'Score'}
+                  </span>
+                  {(['team1', 'team2'] as const).map(team => (
+                    <input
+                      key={team}
+                      type="number"
+                      min={0}
+                      value={game[team]}
+                      onChange={e => handleScoreChange(gameIndex, team, e.target.value)}
+                      className={`flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded-button px-3 py-2 text-fluid-sm font-mono font-bold focus:border-foos-accent focus:outline-none ${
+                        team === 'team1' ? 'text-foos-blue' : 'text-foos-red'
+                      }`}
+                    />
+                  ))}
+                </div>
+              ))}
+
+              {/* The winner follows the scores */}
+              <div className="flex items-center gap-2">
+                <span className="w-16 text-2xs font-bold uppercase tracking-wider text-slate-500">Winner</span>
+                <span className={`text-fluid-sm font-bold ${
+                  draft.winner === 'team1' ? 'text-foos-blue' : draft.winner === 'team2' ? 'text-foos-red' : 'text-slate-500'
+                }`}>
+                  {draft.winner === 'team1' ? 'Blue' : draft.winner === 'team2' ? 'Red' : 'Level'}
+                </span>
+              </div>
+            </div>
+          )}
+
+          {isResult && (
+            <p className="text-2xs md:text-fluid-xs text-slate-500">
+              Saving rescores every match in this tournament with the current settings, and re-rates every match played since this one, in every tournament.
+            </p>
+          )}
+
+          {error && <p className="text-2xs md:text-fluid-xs text-red-400 font-bold">{error}</p>}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-800 flex gap-3">
+          <button
+            onClick={onClose}
+            className="flex-1 bg-slate-800 hover:bg-slate-700 text-white font-bold py-3 rounded-button transition active:scale-95"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!!error}
+            className="flex-1 bg-foos-accent hover:bg-cyan-400 text-slate-900 font-bold py-3 rounded-button transition active:scale-95 disabled:opacity-50 disabled:hover:bg-foos-accent"
+          >
+            {isResult ? 'Save Result' : match ? 'Save' : 'Add to Queue'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MatchEditorModal;
@@ -1,9 +1,10 @@
 
-import React, { useEffect, useState } from 'react';
-import { Match, PlayerView, TournamentSettings } from '../types';
-import { getWinningScore } from '../services/tournamentLogic';
-import { Trophy, Plus, Save, Shield, Sword, XCircle, Undo2, Redo2, Settings, Star, Sparkles, RefreshCw } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { GameScore, Match, PlayerView, Rod, TournamentSettings } from '../types';
+import { getWinningScore, getMatchWinner, getDeuceState, getBestOf, getSeriesScore, getSeriesWinner, withSeriesTotals, getTimeRemainingMs, isGoldenGoal, isSinglesTeam, getTeamPlayerIds, isUnicornMatch, isUnicornPossible, isUnicornReachable, getUnicornLabel } from '../services/tournamentLogic';
+import { Trophy, Plus, Save, Shield, Sword, XCircle, Undo2, Redo2, Settings, Star, Sparkles, RefreshCw, LayoutGrid, SkipForward, X } from 'lucide-react';
 import OptionsModal from './OptionsModal';
+import { ROD_LABELS } from '../services/goalService';
 
 // Sound generation using Web Audio API
 const playWinSound = (isUnicorn: boolean) => {
@@ -61,6 +62,33 @@ const playWinSound = (isUnicorn: boolean) => {
   }
 };
 
+// Clock warning: two short beeps
+const playWarningSound = () => {
+  try {
+    const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+    [0, 0.25].forEach(offset => {
+      const oscillator = audioContext.createOscillator();
+      const gainNode = audioContext.createGain();
+      oscillator.connect(gainNode);
+      gainNode.connect(audioContext.destination);
+      oscillator.type = 'square';
+      oscillator.frequency.value = 880; // A5
+      gainNode.gain.setValueAtTime(0.15, audioContext.currentTime + offset);
+      gainNode.gain.setValueAtTime(0.01, audioContext.currentTime + offset + 0.15);
+      oscillator.start(audioContext.currentTime + offset);
+      oscillator.stop(audioContext.currentTime + offset + 0.2);
+    });
+  } catch (e) {
+    console.log('Audio not supported');
+  }
+};
+
+// Clock as m:ss
+const formatClock = (ms: number): string => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
+
 // Speech synthesis using Web Speech API
 const speak = (text: string, voiceName?: string) => {
   try {
@@ -99,7 +127,8 @@ const getMatchStartAnnouncement = (
   t1Defender: string,
   t2Attacker: string,
   t2Defender: string,
-  isPositionMode: boolean
+  isPositionMode: boolean,
+  isSingles: boolean
 ): string => {
   // Normalize names to lowercase for better TTS pronunciation
   const att1 = t1Attacker.toLowerCase();
@@ -107,12 +136,13 @@ const getMatchStartAnnouncement = (
   const att2 = t2Attacker.toLowerCase();
   const def2 = t2Defender.toLowerCase();
 
-  const blue = isPositionMode
-    ? `${att1} on attack and ${def1} on defense`
-    : `${att1} and ${def1}`;
-  const red = isPositionMode
-    ? `${att2} on attack and ${def2} on defense`
-    : `${att2} and ${def2}`;
+  // Singles: one player per side, stored as both attacker and defender
+  const describeSide = (att: string, def: string) => {
+    if (isSingles) return att;
+    return isPositionMode ? `${att} on attack and ${def} on defense` : `${att} and ${def}`;
+  };
+  const blue = describeSide(att1, def1);
+  const red = describeSide(att2, def2);
 
   const templates = [
     `Ladies and gentlemen, it's foosball time! Blue team: ${blue}. Red team: ${red}. Let the spinning begin!`,
@@ -131,15 +161,18 @@ const getMatchStartAnnouncement = (
 };
 
 // Match end announcement templates
+// winnerPlayer2 is omitted for a singles winner
 const getMatchEndAnnouncement = (
   winnerPlayer1: string,
-  winnerPlayer2: string,
+  winnerPlayer2: string | null,
   winnerScore: number,
   loserScore: number,
   isUnicorn: boolean
 ): string => {
   // Normalize names to lowercase for better TTS pronunciation
-  const winners = `${winnerPlayer1.toLowerCase()} and ${winnerPlayer2.toLowerCase()}`;
+  const winners = winnerPlayer2 === null
+    ? winnerPlayer1.toLowerCase()
+    : `${winnerPlayer1.toLowerCase()} and ${winnerPlayer2.toLowerCase()}`;
   const score = `${winnerScore} to ${loserScore}`;
 
   if (isUnicorn) {
@@ -174,12 +207,24 @@ const getMatchEndAnnouncement = (
   return regularTemplates[Math.floor(Math.random() * regularTemplates.length)];
 };
 
+// Series: a game won with the match still on
+const getGameEndAnnouncement = (team: 'team1' | 'team2', gameNumber: number, seriesScore: GameScore): string => {
+  const series = seriesScore.team1 === seriesScore.team2
+    ? `The series is level at ${seriesScore.team1} all.`
+    : `${seriesScore.team1 > seriesScore.team2 ? 'Blue' : 'Red'} lead the series ${Math.max(seriesScore.team1, seriesScore.team2)} to ${Math.min(seriesScore.team1, seriesScore.team2)}.`;
+  return `Game ${gameNumber} to ${team === 'team1' ? 'blue' : 'red'}! ${series}`;
+};
+
 interface Props {
   match: Match;
   players: PlayerView[];
   onUpdateScore: (team: 'team1' | 'team2', delta: number) => void;
   onFinishMatch: () => void;
+  onNextGame: () => void;     // Series: the game is decided, play the next one
+  onAttributeGoal: (index: number, scorerId: string, rod?: Rod) => void; // Who scored the goal at this index
   onCancelMatch: () => void;
+  onTimeUp: () => void;       // Timed matches: the clock reached zero
+  onLeaveMatch?: () => void;  // Multi-table: back to the dashboard, leaving the match in progress
   settings: TournamentSettings;
   onUpdateSettings: (settings: TournamentSettings) => void;
   onUndo: () => void;
@@ -189,9 +234,65 @@ interface Props {
   onSwapPlayer?: (team: 'team1' | 'team2', position: 'attacker' | 'defender', newPlayerId: string) => void;
 }
 
-const MatchView: React.FC<Props> = ({ match, players, onUpdateScore, onFinishMatch, onCancelMatch, settings, onUpdateSettings, onUndo, onRedo, canUndo, canRedo, onSwapPlayer }) => {
-  const isPositionMode = settings.isPositionMode;
+const MatchView: React.FC<Props> = ({ match, players, onUpdateScore, onFinishMatch, onNextGame, onAttributeGoal, onCancelMatch, onTimeUp, onLeaveMatch, settings, onUpdateSettings, onUndo, onRedo, canUndo, canRedo, onSwapPlayer }) => {
+  const isSingles = isSinglesTeam(match.team1);
+  // Positions don't apply with one player per side
+  const isPositionMode = settings.isPositionMode && !isSingles;
   const winningScore = getWinningScore(settings);
+  const matchWinner = getMatchWinner(match, settings);
+  const deuceState = getDeuceState(match, settings);
+
+  // Best-of-N series: the match is won once a side has won enough games
+  const bestOf = getBestOf(match, settings);
+  const gameNumber = (match.games?.length ?? 0) + 1;
+  const seriesScore = getSeriesScore(match, settings);
+  const seriesWinner = getSeriesWinner(match, settings);
+  const isNextGame = !!matchWinner && !seriesWinner;
+
+  // The teams change ends between series games; scoring keys follow the table side
+  const leftTeam = match.sidesSwitched ? 'team2' : 'team1';
+  const rightTeam = match.sidesSwitched ? 'team1' : 'team2';
+
+  // Timed matches: tick the clock every second until the match is decided
+  const [now, setNow] = useState(Date.now());
+  const timeRemaining = getTimeRemainingMs(match, settings, now);
+  const isClockRunning = timeRemaining !== null && !match.timeExpired && !matchWinner;
+  useEffect(() => {
+    if (!isClockRunning) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isClockRunning]);
+
+  // Clock calls: halftime, one minute left and time up. Calls already passed
+  // when the match is opened (e.g. back from another table) are not repeated.
+  const totalMs = (settings.matchMinutes ?? 0) * 60 * 1000;
+  const clockCallsRef = useRef({
+    game: gameNumber,
+    halftime: timeRemaining !== null && timeRemaining <= totalMs / 2,
+    lastMinute: timeRemaining !== null && timeRemaining <= 60 * 1000,
+  });
+  useEffect(() => {
+    if (timeRemaining === null || matchWinner) return;
+    const calls = clockCallsRef.current;
+    if (calls.game !== gameNumber) Object.assign(calls, { game: gameNumber, halftime: false, lastMinute: false });
+
+    if (timeRemaining === 0 && !match.timeExpired) {
+      playWarningSound();
+      onTimeUp();
+      if (settings.voiceAnnouncements) {
+        speak(match.team1.score === match.team2.score ? 'Time! Level scores, next goal wins!' : 'Time!', settings.voiceName);
+      }
+    } else if (timeRemaining > 0 && timeRemaining <= 60 * 1000 && !calls.lastMinute) {
+      calls.lastMinute = calls.halftime = true;
+      playWarningSound();
+      if (settings.voiceAnnouncements) speak('One minute remaining!', settings.voiceName);
+    } else if (timeRemaining > 0 && timeRemaining <= totalMs / 2 && !calls.halftime) {
+      calls.halftime = true;
+      playWarningSound();
+      if (settings.voiceAnnouncements) speak('Halftime!', settings.voiceName);
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [timeRemaining, match.timeExpired, matchWinner]);
   const [showOptionsModal, setShowOptionsModal] = useState(false);
   const [showCancelConfirm, setShowCancelConfirm] = useState(false);
   const [showWinAnimation, setShowWinAnimation] = useState(false);
@@ -220,18 +321,31 @@ const MatchView: React.FC<Props> = ({ match, players, onUpdateScore, onFinishMat
   const t2Attacker = getPlayer(match.team2.attackerId);
   const t2Defender = getPlayer(match.team2.defenderId);
 
+  // Who scored: asked after each goal until answered, skipped or overtaken by the
+  // next goal. Goals from before the match was (re)opened aren't asked about.
+  const goals = match.goals ?? [];
+  const lastGoal = goals.length > 0 ? goals[goals.length - 1] : undefined;
+  const [skippedGoalAt, setSkippedGoalAt] = useState(lastGoal?.timestamp);
+  const [scorerRod, setScorerRod] = useState<Rod | undefined>(undefined);
+  const askScorer = !!lastGoal && !lastGoal.scorerId && lastGoal.timestamp !== skippedGoalAt;
+  useEffect(() => setScorerRod(undefined), [lastGoal?.timestamp]);
+
+  const handlePickScorer = (scorerId: string) => {
+    onAttributeGoal(goals.length - 1, scorerId, scorerRod);
+  };
+
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      // Team 1 (Blue/Left): Left Arrow or A - only if not at max
-      if ((e.code === 'ArrowLeft' || e.code === 'KeyA') && match.team1.score < winningScore) {
+      // Left side (Blue, until a series switches ends): Left Arrow or A - only while the game is undecided
+      if ((e.code === 'ArrowLeft' || e.code === 'KeyA') && !matchWinner) {
         e.preventDefault();
-        onUpdateScore('team1', 1);
+        onUpdateScore(leftTeam, 1);
       }
-      // Team 2 (Red/Right): Right Arrow or L - only if not at max
-      if ((e.code === 'ArrowRight' || e.code === 'KeyL') && match.team2.score < winningScore) {
+      // Right side: Right Arrow or L - only while the game is undecided
+      if ((e.code === 'ArrowRight' || e.code === 'KeyL') && !matchWinner) {
         e.preventDefault();
-        onUpdateScore('team2', 1);
+        onUpdateScore(rightTeam, 1);
       }
       // Undo: Cmd/Ctrl + Z
       if ((e.metaKey || e.ctrlKey) && e.code === 'KeyZ' && !e.shiftKey) {
@@ -246,7 +360,21 @@ const MatchView: React.FC<Props> = ({ match, players, onUpdateScore, onFinishMat
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [onUpdateScore, onUndo, onRedo, match.team1.score, match.team2.score, winningScore]);
+  }, [onUpdateScore, onUndo, onRedo, matchWinner, leftTeam, rightTeam]);
+
+  // Call deuce and advantage as goals go in. Goals already there when the match is
+  // opened, or brought back by redo, are not called again.
+  const lastGoalAt = lastGoal?.timestamp;
+  const calledGoalAtRef = useRef(lastGoalAt ?? 0);
+  useEffect(() => {
+    if (lastGoalAt === undefined || lastGoalAt <= calledGoalAtRef.current) return;
+    calledGoalAtRef.current = lastGoalAt;
+
+    if (settings.voiceAnnouncements && deuceState) {
+      speak(deuceState === 'deuce' ? 'Deuce!' : `Advantage ${deuceState === 'team1' ? 'blue' : 'red'}!`, settings.voiceName);
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [lastGoalAt]);
 
   // Announce match start
   useEffect(() => {
@@ -256,7 +384,8 @@ const MatchView: React.FC<Props> = ({ match, players, onUpdateScore, onFinishMat
         t1Defender?.nickname || 'Unknown',
         t2Attacker?.nickname || 'Unknown',
         t2Defender?.nickname || 'Unknown',
-        isPositionMode
+        isPositionMode,
+        isSingles
       );
       // Small delay to let the view render first
       const timer = setTimeout(() => speak(announcement, settings.voiceName), 300);
@@ -265,13 +394,30 @@ const MatchView: React.FC<Props> = ({ match, players, onUpdateScore, onFinishMat
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // Run once on mount
 
-  const isWinner1 = match.team1.score >= winningScore;
-  const isWinner2 = match.team2.score >= winningScore;
+  const isWinner1 = matchWinner === 'team1';
+  const isWinner2 = matchWinner === 'team2';
+
+  // What to say when a side wins: the game while a series is still on, otherwise the match
+  // (a series by its games, unless it is a unicorn)
+  const getWinAnnouncement = (team: 'team1' | 'team2', unicornWin: boolean): string => {
+    if (!seriesWinner) return getGameEndAnnouncement(team, gameNumber, seriesScore);
+    const other = team === 'team1' ? 'team2' : 'team1';
+    const [attacker, defender] = team === 'team1' ? [t1Attacker, t1Defender] : [t2Attacker, t2Defender];
+    const totals = withSeriesTotals(match);
+    const score = bestOf > 1 && !unicornWin ? seriesScore : { team1: totals.team1.score, team2: totals.team2.score };
+    return getMatchEndAnnouncement(
+      attacker?.nickname || 'Unknown',
+      isSingles ? null : defender?.nickname || 'Unknown',
+      score[team],
+      score[other],
+      unicornWin
+    );
+  };
 
-  // Trigger win animation when someone wins
+  // Trigger win animation when someone wins (a game, in a series)
   useEffect(() => {
     if (isWinner1 && winningTeam !== 'team1') {
-      const unicornWin = match.team1.score === 10 && match.team2.score === 0;
+      const unicornWin = !!seriesWinner && isUnicornMatch(withSeriesTotals(match), settings);
       setWinningTeam('team1');
       setIsUnicorn(unicornWin);
       setShowWinAnimation(true);
@@ -279,18 +425,10 @@ const MatchView: React.FC<Props> = ({ match, players, onUpdateScore, onFinishMat
       // Announce win after sound completes (unicorn ~1.1s, regular ~0.5s)
       if (settings.voiceAnnouncements) {
         const soundDuration = unicornWin ? 1200 : 600;
-        setTimeout(() => {
-          speak(getMatchEndAnnouncement(
-            t1Attacker?.nickname || 'Unknown',
-            t1Defender?.nickname || 'Unknown',
-            match.team1.score,
-            match.team2.score,
-            unicornWin
-          ), settings.voiceName);
-        }, soundDuration);
+        setTimeout(() => speak(getWinAnnouncement('team1', unicornWin), settings.voiceName), soundDuration);
       }
     } else if (isWinner2 && winningTeam !== 'team2') {
-      const unicornWin = match.team2.score === 10 && match.team1.score === 0;
+      const unicornWin = !!seriesWinner && isUnicornMatch(withSeriesTotals(match), settings);
       setWinningTeam('team2');
       setIsUnicorn(unicornWin);
       setShowWinAnimation(true);
@@ -298,15 +436,7 @@ const MatchView: React.FC<Props> = ({ match, players, onUpdateScore, onFinishMat
       // Announce win after sound completes
       if (settings.voiceAnnouncements) {
         const soundDuration = unicornWin ? 1200 : 600;
-        setTimeout(() => {
-          speak(getMatchEndAnnouncement(
-            t2Attacker?.nickname || 'Unknown',
-            t2Defender?.nickname || 'Unknown',
-            match.team2.score,
-            match.team1.score,
-            unicornWin
-          ), settings.voiceName);
-        }, soundDuration);
+        setTimeout(() => speak(getWinAnnouncement('team2', unicornWin), settings.voiceName), soundDuration);
       }
     } else if (!isWinner1 && !isWinner2 && winningTeam) {
       // Reset if score drops below winning (undo scenario)
@@ -336,6 +466,7 @@ const MatchView: React.FC<Props> = ({ match, players, onUpdateScore, onFinishMat
   // Render a single player avatar at a specific percentage position
   const renderAvatar = (player: PlayerView | undefined, role: 'Attack' | 'Defense', team: 'Blue' | 'Red') => {
     const isBlue = team === 'Blue';
+    const isLeft = isBlue !== !!match.sidesSwitched;
     const borderColor = isBlue ? 'border-foos-blue' : 'border-foos-red';
     const glowColor = isBlue ? 'shadow-blue-500/50' : 'shadow-red-500/50';
     const labelColor = isBlue ? 'bg-blue-600' : 'bg-red-600';
@@ -345,10 +476,15 @@ const MatchView: React.FC<Props> = ({ match, players, onUpdateScore, onFinishMat
     // Positioning Logic - adjusted for larger avatars, moved toward center
     let style: React.CSSProperties = {};
 
-    if (isPositionMode) {
+    if (isSingles) {
+        // Singles: one player per side, centred in their half
+        style = isLeft
+            ? { left: '28%', top: '50%', transform: 'translate(-50%, -50%)' }
+            : { right: '28%', top: '50%', transform: 'translate(50%, -50%)' };
+    } else if (isPositionMode) {
         // Positional Mode: Horizontal alignment (Defense back, Attack forward)
         // Defense at 15%, Attack at 35% - both moved more toward center
-        if (isBlue) {
+        if (isLeft) {
             style = role === 'Defense'
                 ? { left: '15%', top: '50%', transform: 'translate(-50%, -50%)' }
                 : { left: '35%', top: '50%', transform: 'translate(-50%, -50%)' };
@@ -359,7 +495,7 @@ const MatchView: React.FC<Props> = ({ match, players, onUpdateScore, onFinishMat
         }
     } else {
         // Standard Mode: Vertical alignment (Top / Bottom)
-        if (isBlue) {
+        if (isLeft) {
             style = role === 'Attack'
                 ? { left: '28%', top: '35%', transform: 'translate(-50%, -50%)' }
                 : { left: '28%', top: '65%', transform: 'translate(-50%, -50%)' };
@@ -372,7 +508,7 @@ const MatchView: React.FC<Props> = ({ match, players, onUpdateScore, onFinishMat
 
     // In non-position mode, name card goes to the side; in position mode, below
     const nameCardPosition = !isPositionMode
-      ? (isBlue ? 'flex-row' : 'flex-row-reverse')
+      ? (isLeft ? 'flex-row' : 'flex-row-reverse')
       : 'flex-col';
 
     return (
@@ -439,25 +575,60 @@ const MatchView: React.FC<Props> = ({ match, players, onUpdateScore, onFinishMat
 
       {/* Top Bar */}
       <div className="h-14 sm:h-16 bg-slate-900 border-b border-slate-800 flex items-center justify-between px-2 sm:px-4 md:px-6 z-30 shadow-2xl relative">
-        <button onClick={() => setShowCancelConfirm(true)} className="text-slate-500 hover:text-white flex items-center gap-1.5 sm:gap-2 transition uppercase text-2xs sm:text-fluid-xs font-bold tracking-widest p-2 rounded-button hover:bg-slate-800 active:scale-95">
-            <XCircle className="w-4 h-4 sm:w-5 sm:h-5" /> <span className="hidden sm:inline">Cancel</span>
-        </button>
+        <div className="flex items-center gap-1 md:gap-2">
+          <button onClick={() => setShowCancelConfirm(true)} className="text-slate-500 hover:text-white flex items-center gap-1.5 sm:gap-2 transition uppercase text-2xs sm:text-fluid-xs font-bold tracking-widest p-2 rounded-button hover:bg-slate-800 active:scale-95">
+              <XCircle className="w-4 h-4 sm:w-5 sm:h-5" /> <span className="hidden sm:inline">Cancel</span>
+          </button>
+          {onLeaveMatch && (
+            <button
+              onClick={onLeaveMatch}
+              className="text-slate-500 hover:text-white flex items-center gap-1.5 sm:gap-2 transition uppercase text-2xs sm:text-fluid-xs font-bold tracking-widest p-2 rounded-button hover:bg-slate-800 active:scale-95"
+              title="Back to the tables, this match stays in progress"
+            >
+              <LayoutGrid className="w-4 h-4 sm:w-5 sm:h-5" /> <span className="hidden sm:inline">Table {match.table ?? 1}</span>
+            </button>
+          )}
+        </div>
 
         {/* Center: Target Score Display */}
         <div className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 flex items-center gap-3">
              <div className="flex items-center gap-1.5 sm:gap-2 bg-slate-800/80 backdrop-blur-sm px-3 sm:px-4 py-1.5 sm:py-2 rounded-card border border-slate-700">
                <Star className="w-4 h-4 text-foos-gold" />
                <span className="text-white font-black text-fluid-base sm:text-fluid-lg tabular-nums font-mono">{winningScore}</span>
-               <span className="text-slate-500 text-2xs sm:text-fluid-xs font-bold uppercase tracking-wide hidden md:inline">to win</span>
-               {winningScore === 10 && (
+               <span className="text-slate-500 text-2xs sm:text-fluid-xs font-bold uppercase tracking-wide hidden md:inline">
+                 to win{settings.winBy > 1 && ` by ${settings.winBy}`}{settings.winBy > 1 && settings.scoreCap !== null && `, cap ${settings.scoreCap}`}
+               </span>
+               {timeRemaining !== null && (
+                 <span className={`font-black text-fluid-base sm:text-fluid-lg tabular-nums font-mono ml-1 ${
+                   isGoldenGoal(match) ? 'text-foos-gold animate-pulse' : timeRemaining <= 60 * 1000 ? 'text-red-400' : 'text-slate-300'
+                 }`}>
+                   {isGoldenGoal(match) ? 'GOLDEN GOAL' : formatClock(timeRemaining)}
+                 </span>
+               )}
+               {deuceState && (
+                 <span className={`text-2xs sm:text-fluid-xs font-black uppercase tracking-wider ${
+                   deuceState === 'team1' ? 'text-foos-blue' : deuceState === 'team2' ? 'text-foos-red' : 'text-foos-gold'
+                 }`}>
+                   {deuceState === 'deuce' ? 'Deuce' : `Adv ${deuceState === 'team1' ? 'Blue' : 'Red'}`}
+                 </span>
+               )}
+               {bestOf > 1 && (
+                 <span className="text-2xs sm:text-fluid-xs font-black uppercase tracking-wider text-slate-300 whitespace-nowrap" title={`Best of ${bestOf}`}>
+                   G{gameNumber}
+                   <span className="ml-1 font-mono tabular-nums">
+                     <span className="text-foos-blue">{seriesScore.team1}</span>-<span className="text-foos-red">{seriesScore.team2}</span>
+                   </span>
+                 </span>
+               )}
+               {isUnicornReachable(settings) && (
                  <span
                    className={`ml-1 text-lg sm:text-xl transition-opacity duration-300 ${
-                     match.team1.score === 0 || match.team2.score === 0
+                     isUnicornPossible(withSeriesTotals(match), settings)
                        ? 'opacity-100'
                        : 'opacity-30 grayscale'
                    }`}
-                   title={match.team1.score === 0 || match.team2.score === 0
-                     ? "Unicorn possible! A 10-0 shutout earns bonus points"
+                   title={isUnicornPossible(withSeriesTotals(match), settings)
+                     ? `Unicorn possible! A ${getUnicornLabel(settings)} shutout earns bonus points`
                      : "Unicorn no longer possible"}
                  >
                    🦄
@@ -506,24 +677,27 @@ const MatchView: React.FC<Props> = ({ match, players, onUpdateScore, onFinishMat
           </button>
 
           <button
-            onClick={onFinishMatch}
+            onClick={isNextGame ? onNextGame : onFinishMatch}
             disabled={!isWinner1 && !isWinner2}
             className={`flex items-center gap-1.5 sm:gap-2 px-2 sm:px-3 md:px-4 py-1.5 sm:py-2 rounded-button font-bold text-2xs sm:text-fluid-xs transition uppercase tracking-wide shadow-lg active:scale-95 ${
                 isWinner1 || isWinner2
                 ? 'bg-foos-brand text-white hover:bg-orange-600 shadow-button-brand'
                 : 'bg-slate-800 text-slate-600 cursor-not-allowed'
             }`}
+            title={isNextGame && settings.switchSides ? 'Start the next game, teams change ends' : undefined}
         >
-            <Save className="w-4 h-4" /> <span className="hidden sm:inline">Save Result</span>
+            {isNextGame
+              ? <><SkipForward className="w-4 h-4" /> <span className="hidden sm:inline">Next Game</span></>
+              : <><Save className="w-4 h-4" /> <span className="hidden sm:inline">Save Result</span></>}
         </button>
         </div>
       </div>
 
       {/* Main Pitch Area */}
-      <div className="flex-1 relative flex overflow-hidden">
+      <div className={`flex-1 relative flex overflow-hidden ${match.sidesSwitched ? 'flex-row-reverse' : ''}`}>
         
-        {/* TEAM 1 SIDE PANEL (LEFT) - narrower for more pitch space */}
-        <div className={`w-16 sm:w-20 md:w-28 lg:w-36 xl:w-44 bg-slate-900 border-r-4 border-slate-800 flex flex-col items-center justify-center relative z-20 transition-colors duration-500 ${isWinner1 ? 'bg-blue-900/20' : ''}`}>
+        {/* TEAM 1 SIDE PANEL (LEFT, or right once a series switches ends) - narrower for more pitch space */}
+        <div className={`w-16 sm:w-20 md:w-28 lg:w-36 xl:w-44 bg-slate-900 ${match.sidesSwitched ? 'border-l-4' : 'border-r-4'} border-slate-800 flex flex-col items-center justify-center relative z-20 transition-colors duration-500 ${isWinner1 ? 'bg-blue-900/20' : ''}`}>
              <div className="absolute inset-0 bg-[url('https://www.transparenttextures.com/patterns/carbon-fibre.png')] opacity-20 pointer-events-none"></div>
 
              <div className="mb-4 sm:mb-6 md:mb-8 text-center">
@@ -536,13 +710,13 @@ const MatchView: React.FC<Props> = ({ match, players, onUpdateScore, onFinishMat
                       onClick={(e) => {
                         e.preventDefault();
                         e.stopPropagation();
-                        if (match.team1.score < winningScore) {
+                        if (!matchWinner) {
                           onUpdateScore('team1', 1);
                         }
                       }}
-                      disabled={match.team1.score >= winningScore}
+                      disabled={!!matchWinner}
                       className={`w-14 h-14 sm:w-16 sm:h-16 md:w-20 md:h-20 rounded-xl md:rounded-2xl flex items-center justify-center transition ${
-                        match.team1.score >= winningScore
+                        matchWinner
                           ? 'bg-slate-700 text-slate-500 cursor-not-allowed opacity-50'
                           : 'bg-foos-blue hover:bg-blue-400 text-white shadow-lg shadow-blue-500/30 active:scale-95'
                       }`}
@@ -550,7 +724,7 @@ const MatchView: React.FC<Props> = ({ match, players, onUpdateScore, onFinishMat
                        <Plus className="w-7 h-7 sm:w-8 sm:h-8 md:w-10 md:h-10 pointer-events-none" />
                    </button>
                    {hasKeyboard && (
-                     <span className="mt-2 text-xs text-slate-400 font-bold tracking-tight hidden md:block">← Arrow</span>
+                     <span className="mt-2 text-xs text-slate-400 font-bold tracking-tight hidden md:block">{leftTeam === 'team1' ? '← Arrow' : '→ Arrow'}</span>
                    )}
                  </div>
 
@@ -592,11 +766,11 @@ const MatchView: React.FC<Props> = ({ match, players, onUpdateScore, onFinishMat
              {/* PLAYERS */}
              {/* Team 1 (Blue) */}
              {renderAvatar(t1Attacker, 'Attack', 'Blue')}
-             {renderAvatar(t1Defender, 'Defense', 'Blue')}
+             {!isSingles && renderAvatar(t1Defender, 'Defense', 'Blue')}
 
              {/* Team 2 (Red) */}
              {renderAvatar(t2Attacker, 'Attack', 'Red')}
-             {renderAvatar(t2Defender, 'Defense', 'Red')}
+             {!isSingles && renderAvatar(t2Defender, 'Defense', 'Red')}
 
              {/* VS Label in Center */}
              <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 pointer-events-none opacity-10 mix-blend-overlay">
@@ -604,8 +778,8 @@ const MatchView: React.FC<Props> = ({ match, players, onUpdateScore, onFinishMat
              </div>
         </div>
 
-        {/* TEAM 2 SIDE PANEL (RIGHT) - narrower for more pitch space */}
-        <div className={`w-16 sm:w-20 md:w-28 lg:w-36 xl:w-44 bg-slate-900 border-l-4 border-slate-800 flex flex-col items-center justify-center relative z-20 transition-colors duration-500 ${isWinner2 ? 'bg-red-900/20' : ''}`}>
+        {/* TEAM 2 SIDE PANEL (RIGHT, or left once a series switches ends) - narrower for more pitch space */}
+        <div className={`w-16 sm:w-20 md:w-28 lg:w-36 xl:w-44 bg-slate-900 ${match.sidesSwitched ? 'border-r-4' : 'border-l-4'} border-slate-800 flex flex-col items-center justify-center relative z-20 transition-colors duration-500 ${isWinner2 ? 'bg-red-900/20' : ''}`}>
              <div className="absolute inset-0 bg-[url('https://www.transparenttextures.com/patterns/carbon-fibre.png')] opacity-20 pointer-events-none"></div>
 
              <div className="mb-4 sm:mb-6 md:mb-8 text-center">
@@ -618,13 +792,13 @@ const MatchView: React.FC<Props> = ({ match, players, onUpdateScore, onFinishMat
                       onClick={(e) => {
                         e.preventDefault();
                         e.stopPropagation();
-                        if (match.team2.score < winningScore) {
+                        if (!matchWinner) {
                           onUpdateScore('team2', 1);
                         }
                       }}
-                      disabled={match.team2.score >= winningScore}
+                      disabled={!!matchWinner}
                       className={`w-14 h-14 sm:w-16 sm:h-16 md:w-20 md:h-20 rounded-xl md:rounded-2xl flex items-center justify-center transition ${
-                        match.team2.score >= winningScore
+                        matchWinner
                           ? 'bg-slate-700 text-slate-500 cursor-not-allowed opacity-50'
                           : 'bg-foos-red hover:bg-red-400 text-white shadow-lg shadow-red-500/30 active:scale-95'
                       }`}
@@ -632,7 +806,7 @@ const MatchView: React.FC<Props> = ({ match, players, onUpdateScore, onFinishMat
                        <Plus className="w-7 h-7 sm:w-8 sm:h-8 md:w-10 md:h-10 pointer-events-none" />
                    </button>
                    {hasKeyboard && (
-                     <span className="mt-2 text-xs text-slate-400 font-bold tracking-tight hidden md:block">→ Arrow</span>
+                     <span className="mt-2 text-xs text-slate-400 font-bold tracking-tight hidden md:block">{rightTeam === 'team2' ? '→ Arrow' : '← Arrow'}</span>
                    )}
                  </div>
 
@@ -720,7 +894,7 @@ const MatchView: React.FC<Props> = ({ match, players, onUpdateScore, onFinishMat
                   <p className={`text-xl sm:text-2xl md:text-3xl lg:text-5xl font-black mt-1 sm:mt-2 ${
                     winningTeam === 'team1' ? 'text-blue-400' : 'text-red-400'
                   } drop-shadow-[0_0_15px_rgba(0,0,0,0.6)]`}>
-                    {winningTeam === 'team1' ? 'BLUE' : 'RED'} WINS {winningScore}-0!
+                    {winningTeam === 'team1' ? 'BLUE' : 'RED'} WINS {winningTeam && withSeriesTotals(match)[winningTeam].score}-0!
                   </p>
                 </>
               ) : (
@@ -734,7 +908,7 @@ const MatchView: React.FC<Props> = ({ match, players, onUpdateScore, onFinishMat
                     {winningTeam === 'team1' ? 'BLUE' : 'RED'}
                   </h2>
                   <p className="text-2xl sm:text-3xl md:text-4xl lg:text-6xl font-black text-foos-gold mt-1 sm:mt-2 drop-shadow-[0_0_15px_rgba(250,204,21,0.6)] animate-pulse">
-                    WINS!
+                    {seriesWinner ? 'WINS!' : `TAKES GAME ${gameNumber}!`}
                   </p>
                 </>
               )}
@@ -743,12 +917,70 @@ const MatchView: React.FC<Props> = ({ match, players, onUpdateScore, onFinishMat
         </div>
       )}
 
+      {/* Who scored? */}
+      {askScorer && lastGoal && (
+        <div className="fixed bottom-3 sm:bottom-6 left-1/2 -translate-x-1/2 z-50 w-[min(92vw,26rem)] bg-slate-900/95 backdrop-blur-md border border-slate-700 rounded-2xl shadow-2xl p-3">
+          <div className="flex items-center justify-between mb-2">
+            <span className={`text-2xs sm:text-fluid-xs font-black uppercase tracking-wider ${lastGoal.team === 'team1' ? 'text-foos-blue' : 'text-foos-red'}`}>
+              Who scored?
+            </span>
+            <button onClick={() => setSkippedGoalAt(lastGoal.timestamp)} className="p-1 text-slate-500 hover:text-white transition" title="Skip">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-4 gap-1 mb-2">
+            {(Object.keys(ROD_LABELS) as Rod[]).map(rod => (
+              <button
+                key={rod}
+                onClick={() => setScorerRod(prev => prev === rod ? undefined : rod)}
+                className={`py-1 rounded-lg text-2xs font-bold uppercase transition border ${
+                  scorerRod === rod
+                    ? 'bg-foos-accent/10 border-foos-accent text-foos-accent'
+                    : 'bg-slate-900 border-slate-800 text-slate-400 hover:border-slate-600'
+                }`}
+              >
+                {ROD_LABELS[rod]}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            {getTeamPlayerIds(match[lastGoal.team]).map(id => (
+              <button
+                key={id}
+                onClick={() => handlePickScorer(id)}
+                className={`py-2 px-3 rounded-xl font-bold text-sm text-white truncate transition active:scale-95 ${
+                  lastGoal.team === 'team1' ? 'bg-foos-blue hover:bg-blue-400' : 'bg-foos-red hover:bg-red-400'
+                }`}
+              >
+                {getPlayer(id)?.nickname || 'Unknown'}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-1.5 mt-2">
+            <span className="text-2xs text-slate-500 font-bold uppercase tracking-wider">Own goal:</span>
+            {getTeamPlayerIds(match[lastGoal.team === 'team1' ? 'team2' : 'team1']).map(id => (
+              <button
+                key={id}
+                onClick={() => handlePickScorer(id)}
+                className="px-2 py-1 rounded-lg text-2xs font-bold text-slate-300 bg-slate-800 hover:bg-slate-700 transition"
+              >
+                {getPlayer(id)?.nickname || 'Unknown'}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Options Modal */}
       <OptionsModal
         isOpen={showOptionsModal}
         onClose={() => setShowOptionsModal(false)}
         settings={settings}
         onSave={onUpdateSettings}
+        players={players}
         hasCompletedMatches={false}
       />
 
@@ -800,7 +1032,9 @@ const MatchView: React.FC<Props> = ({ match, players, onUpdateScore, onFinishMat
                 <h3 className="text-lg font-black text-white uppercase italic tracking-wide">Swap Player</h3>
               </div>
               <p className="text-slate-400 text-sm">
-                Select a player to swap in for {swapSelection.team === 'team1' ? 'Blue' : 'Red'} team's {swapSelection.position}.
+                {isSingles
+                  ? <>Select a player to swap in for {swapSelection.team === 'team1' ? 'Blue' : 'Red'}'s player.</>
+                  : <>Select a player to swap in for {swapSelection.team === 'team1' ? 'Blue' : 'Red'} team's {swapSelection.position}.</>}
               </p>
             </div>
             <div className="p-4 sm:p-6 overflow-y-auto flex-1">
@@ -1,6 +1,58 @@
 import React, { useState, useEffect } from 'react';
-import { TournamentSettings } from '../types';
-import { X, Shield, Sparkles, Target, AlertTriangle, Volume2, ChevronDown } from 'lucide-react';
+import { TournamentSettings, TournamentFormat, MatchmakingStrategyId, FairnessMode, SeriesScope, PairingRuleType, Tiebreaker, PlayerView } from '../types';
+import { X, Shield, Sparkles, Target, AlertTriangle, Volume2, ChevronDown, Trophy, Users, Scale, LayoutGrid, Link2, Plus, Clock, Medal, ChevronUp, Swords, Timer, Layers } from 'lucide-react';
+import { MAX_TABLES, getTableNumbers } from '../services/tableService';
+import { generateId, getPairKey, describePairingRule, isUnicornReachable, getUnicornLabel, getGamesToWin } from '../services/tournamentLogic';
+
+const FORMAT_OPTIONS: { value: TournamentFormat; label: string; description: string }[] = [
+  { value: 'open', label: 'Open Play', description: 'Matches on demand, evening out games played' },
+  { value: 'roundRobin', label: 'Round Robin', description: 'Fixed fixture list, everyone partners everyone' },
+  { value: 'swiss', label: 'Swiss', description: 'Rounds pair similar points, no repeat opponents' },
+  { value: 'kingOfTable', label: 'King of the Table', description: 'Winner stays on, challengers queue up' },
+];
+
+const MATCHMAKING_OPTIONS: { value: MatchmakingStrategyId; label: string; description: string }[] = [
+  { value: 'variety', label: 'Variety', description: 'Fewest repeat teammates' },
+  { value: 'newOpponents', label: 'New Opponents', description: 'Fewest repeat opponents' },
+  { value: 'balanced', label: 'Balanced', description: 'Even odds by Elo rating' },
+  { value: 'random', label: 'Random', description: 'Random players and teams' },
+];
+
+const FAIRNESS_OPTIONS: { value: FairnessMode; label: string; description: string }[] = [
+  { value: 'gamesPlayed', label: 'Games Played', description: 'Fewest games first' },
+  { value: 'perMinute', label: 'Per Minute', description: 'Fewest games per minute present' },
+  { value: 'catchUp', label: 'Catch-up Cap', description: 'Late arrivals catch up a few games' },
+];
+
+const CATCH_UP_CAPS = [1, 2, 3, 5];
+
+const POINTS_OPTIONS: { key: 'pointsWin' | 'pointsLoss' | 'pointsPerGoalMargin'; label: string; values: number[] }[] = [
+  { key: 'pointsWin', label: 'Win', values: [1, 2, 3] },
+  { key: 'pointsLoss', label: 'Loss', values: [0, 1] },
+  { key: 'pointsPerGoalMargin', label: 'Per goal margin', values: [0, 0.1, 0.2, 0.5] },
+];
+
+// Timed match lengths (null = untimed)
+const MATCH_MINUTES = [null, 5, 7, 10];
+
+// Games in a series match
+const BEST_OF_OPTIONS = [1, 3, 5];
+
+const SERIES_SCOPE_OPTIONS: { value: SeriesScope; label: string }[] = [
+  { value: 'all', label: 'All Matches' },
+  { value: 'knockout', label: 'Knockout' },
+  { value: 'final', label: 'Finals' },
+];
+
+// Smallest winning score for a unicorn (1 = any shutout)
+const UNICORN_MIN_SCORES = [1, 5, 10];
+
+const TIEBREAKER_LABELS: Record<Tiebreaker, string> = {
+  wins: 'Wins',
+  goalDifference: 'Goal Difference',
+  goalsScored: 'Goals Scored',
+  headToHead: 'Head-to-Head',
+};
 
 interface Props {
   isOpen: boolean;
@@ -8,6 +60,7 @@ interface Props {
   settings: TournamentSettings;
   onSave: (settings: TournamentSettings) => void;
   hasCompletedMatches: boolean;
+  players: PlayerView[];
 }
 
 const OptionsModal: React.FC<Props> = ({
@@ -16,8 +69,11 @@ const OptionsModal: React.FC<Props> = ({
   settings,
   onSave,
   hasCompletedMatches,
+  players,
 }) => {
   const [localSettings, setLocalSettings] = useState<TournamentSettings>(settings);
+  // Pairing rule being put together: two players and whether they always or never pair
+  const [ruleDraft, setRuleDraft] = useState<{ type: PairingRuleType, playerIds: [string, string] }>({ type: 'never', playerIds: ['', ''] });
   const [showWarning, setShowWarning] = useState(false);
   const [availableVoices, setAvailableVoices] = useState<SpeechSynthesisVoice[]>([]);
 
@@ -78,6 +134,33 @@ const OptionsModal: React.FC<Props> = ({
     onClose();
   };
 
+  // One rule per pair: a new rule for the same two players replaces the old one
+  const handleAddRule = () => {
+    const [a, b] = ruleDraft.playerIds;
+    if (!a || !b || a === b) return;
+
+    setLocalSettings(prev => ({
+      ...prev,
+      pairingRules: [
+        ...prev.pairingRules.filter(r => getPairKey(r.playerIds[0], r.playerIds[1]) !== getPairKey(a, b)),
+        { id: generateId(), type: ruleDraft.type, playerIds: [a, b] },
+      ],
+    }));
+    setRuleDraft(prev => ({ ...prev, playerIds: ['', ''] }));
+  };
+
+  const handleRemoveRule = (ruleId: string) => {
+    setLocalSettings(prev => ({ ...prev, pairingRules: prev.pairingRules.filter(r => r.id !== ruleId) }));
+  };
+
+  const handleMoveTiebreakerUp = (index: number) => {
+    setLocalSettings(prev => {
+      const tiebreakers = [...prev.tiebreakers];
+      [tiebreakers[index - 1], tiebreakers[index]] = [tiebreakers[index], tiebreakers[index - 1]];
+      return { ...prev, tiebreakers };
+    });
+  };
+
   const handleClose = () => {
     setLocalSettings(settings);
     setShowWarning(false);
@@ -106,7 +189,7 @@ const OptionsModal: React.FC<Props> = ({
               <div>
                 <div className="text-amber-500 font-bold text-sm mb-1">Matches Already Played</div>
                 <div className="text-amber-500/80 text-xs">
-                  Changing settings mid-tournament may affect scoring fairness. Previous matches won't be recalculated.
+                  Changing settings mid-tournament may affect scoring fairness. Previous matches keep their points until a result is corrected or deleted, which rescores every match with the current settings.
                 </div>
                 <button
                   onClick={() => {
@@ -121,12 +204,233 @@ const OptionsModal: React.FC<Props> = ({
             </div>
           )}
 
+          {/* Tournament Format */}
+          <div>
+            <div className="flex items-center gap-2 mb-3">
+              <Trophy className="w-4 h-4 text-foos-gold" />
+              <span className="text-slate-400 text-xs font-bold uppercase tracking-wider">Format</span>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {FORMAT_OPTIONS.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => setLocalSettings(prev => ({ ...prev, format: option.value }))}
+                  className={`p-3 rounded-xl text-left transition border ${
+                    localSettings.format === option.value
+                      ? 'bg-foos-accent/10 border-foos-accent'
+                      : 'bg-slate-900 border-slate-800 hover:border-slate-600'
+                  }`}
+                >
+                  <div className={`font-bold text-sm ${localSettings.format === option.value ? 'text-foos-accent' : 'text-slate-400'}`}>
+                    {option.label}
+                  </div>
+                  <div className="text-slate-500 text-xs">{option.description}</div>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Match Type */}
+          <div>
+            <div className="flex items-center gap-2 mb-3">
+              <Users className="w-4 h-4 text-foos-accent" />
+              <span className="text-slate-400 text-xs font-bold uppercase tracking-wider">Match Type</span>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {([false, true] as const).map(isSingles => (
+                <button
+                  key={isSingles ? 'singles' : 'doubles'}
+                  onClick={() => setLocalSettings(prev => ({ ...prev, isSingles }))}
+                  className={`p-3 rounded-xl text-left transition border ${
+                    localSettings.isSingles === isSingles
+                      ? 'bg-foos-accent/10 border-foos-accent'
+                      : 'bg-slate-900 border-slate-800 hover:border-slate-600'
+                  }`}
+                >
+                  <div className={`font-bold text-sm ${localSettings.isSingles === isSingles ? 'text-foos-accent' : 'text-slate-400'}`}>
+                    {isSingles ? 'Singles' : 'Doubles'}
+                  </div>
+                  <div className="text-slate-500 text-xs">{isSingles ? '1v1, needs 2 players' : '2v2, needs 4 players'}</div>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Tables */}
+          <div>
+            <div className="flex items-center gap-2 mb-3">
+              <LayoutGrid className="w-4 h-4 text-foos-accent" />
+              <span className="text-slate-400 text-xs font-bold uppercase tracking-wider">Tables</span>
+            </div>
+            <div className="grid grid-cols-4 gap-2">
+              {getTableNumbers(MAX_TABLES).map(tableCount => (
+                <button
+                  key={tableCount}
+                  onClick={() => setLocalSettings(prev => ({ ...prev, tableCount }))}
+                  className={`py-2 rounded-xl font-bold text-sm transition border ${
+                    localSettings.tableCount === tableCount
+                      ? 'bg-foos-accent/10 border-foos-accent text-foos-accent'
+                      : 'bg-slate-900 border-slate-800 text-slate-400 hover:border-slate-600'
+                  }`}
+                >
+                  {tableCount}
+                </button>
+              ))}
+            </div>
+            <div className="text-slate-500 text-xs mt-2">Matches played at the same time, no player booked twice</div>
+          </div>
+
+          {/* Matchmaking (open play, unless fixed doubles teams) */}
+          {localSettings.format === 'open' && (localSettings.isSingles || !localSettings.isFixedTeams) && (
+            <div>
+              <div className="flex items-center gap-2 mb-3">
+                <Scale className="w-4 h-4 text-foos-accent" />
+                <span className="text-slate-400 text-xs font-bold uppercase tracking-wider">Matchmaking</span>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {MATCHMAKING_OPTIONS.map(option => (
+                  <button
+                    key={option.value}
+                    onClick={() => setLocalSettings(prev => ({ ...prev, matchmaking: option.value }))}
+                    className={`p-3 rounded-xl text-left transition border ${
+                      localSettings.matchmaking === option.value
+                        ? 'bg-foos-accent/10 border-foos-accent'
+                        : 'bg-slate-900 border-slate-800 hover:border-slate-600'
+                    }`}
+                  >
+                    <div className={`font-bold text-sm ${localSettings.matchmaking === option.value ? 'text-foos-accent' : 'text-slate-400'}`}>
+                      {option.label}
+                    </div>
+                    <div className="text-slate-500 text-xs">{option.description}</div>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Late Arrivals (open play, unless fixed doubles teams) */}
+          {localSettings.format === 'open' && (localSettings.isSingles || !localSettings.isFixedTeams) && (
+            <div>
+              <div className="flex items-center gap-2 mb-3">
+                <Clock className="w-4 h-4 text-foos-accent" />
+                <span className="text-slate-400 text-xs font-bold uppercase tracking-wider">Late Arrivals</span>
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                {FAIRNESS_OPTIONS.map(option => (
+                  <button
+                    key={option.value}
+                    onClick={() => setLocalSettings(prev => ({ ...prev, fairness: option.value }))}
+                    className={`p-3 rounded-xl text-left transition border ${
+                      localSettings.fairness === option.value
+                        ? 'bg-foos-accent/10 border-foos-accent'
+                        : 'bg-slate-900 border-slate-800 hover:border-slate-600'
+                    }`}
+                  >
+                    <div className={`font-bold text-sm ${localSettings.fairness === option.value ? 'text-foos-accent' : 'text-slate-400'}`}>
+                      {option.label}
+                    </div>
+                    <div className="text-slate-500 text-xs">{option.description}</div>
+                  </button>
+                ))}
+              </div>
+              {localSettings.fairness === 'catchUp' && (
+                <div className="flex items-center justify-between mt-2">
+                  <span className="text-slate-500 text-xs">Most games a player can be behind</span>
+                  <div className="flex gap-1">
+                    {CATCH_UP_CAPS.map(catchUpCap => (
+                      <button
+                        key={catchUpCap}
+                        onClick={() => setLocalSettings(prev => ({ ...prev, catchUpCap }))}
+                        className={`w-9 py-1.5 rounded-lg font-bold text-sm transition border ${
+                          localSettings.catchUpCap === catchUpCap
+                            ? 'bg-foos-accent/10 border-foos-accent text-foos-accent'
+                            : 'bg-slate-900 border-slate-800 text-slate-400 hover:border-slate-600'
+                        }`}
+                      >
+                        {catchUpCap}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Pairing Rules (open play doubles with rotating partners) */}
+          {localSettings.format === 'open' && !localSettings.isSingles && !localSettings.isFixedTeams && (
+            <div>
+              <div className="flex items-center gap-2 mb-3">
+                <Link2 className="w-4 h-4 text-foos-accent" />
+                <span className="text-slate-400 text-xs font-bold uppercase tracking-wider">Pairing Rules</span>
+              </div>
+              {localSettings.pairingRules.length > 0 && (
+                <div className="space-y-2 mb-2">
+                  {localSettings.pairingRules.map(rule => (
+                    <div key={rule.id} className="flex items-center justify-between bg-slate-900 border border-slate-800 rounded-xl px-3 py-2">
+                      <span className={`text-sm font-bold ${rule.type === 'always' ? 'text-green-400' : 'text-red-400'}`}>
+                        {describePairingRule(rule, players)}
+                      </span>
+                      <button onClick={() => handleRemoveRule(rule.id)} className="text-slate-500 hover:text-white transition">
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="bg-slate-900 rounded-xl p-3 border border-slate-800 space-y-2">
+                <div className="grid grid-cols-2 gap-2">
+                  {([0, 1] as const).map(slot => (
+                    <select
+                      key={slot}
+                      value={ruleDraft.playerIds[slot]}
+                      onChange={e => {
+                        const [a, b] = ruleDraft.playerIds;
+                        const playerIds: [string, string] = slot === 0 ? [e.target.value, b] : [a, e.target.value];
+                        setRuleDraft(prev => ({ ...prev, playerIds }));
+                      }}
+                      className="bg-slate-800 text-white rounded-lg px-2 py-2 text-sm border border-slate-700 focus:border-foos-accent focus:outline-none"
+                    >
+                      <option value="">Player</option>
+                      {players.map(p => (
+                        <option key={p.id} value={p.id}>{p.nickname}</option>
+                      ))}
+                    </select>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  {(['always', 'never'] as const).map(type => (
+                    <button
+                      key={type}
+                      onClick={() => setRuleDraft(prev => ({ ...prev, type }))}
+                      className={`flex-1 py-2 rounded-lg font-bold text-xs uppercase tracking-wider transition border ${
+                        ruleDraft.type === type
+                          ? 'bg-foos-accent/10 border-foos-accent text-foos-accent'
+                          : 'bg-slate-800 border-slate-700 text-slate-400 hover:border-slate-600'
+                      }`}
+                    >
+                      {type === 'always' ? 'Always Pair' : 'Never Pair'}
+                    </button>
+                  ))}
+                  <button
+                    onClick={handleAddRule}
+                    disabled={!ruleDraft.playerIds[0] || !ruleDraft.playerIds[1] || ruleDraft.playerIds[0] === ruleDraft.playerIds[1]}
+                    className="px-3 rounded-lg bg-foos-accent text-slate-900 font-bold transition disabled:opacity-30"
+                    title="Add rule"
+                  >
+                    <Plus className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+              <div className="text-slate-500 text-xs mt-2">Kept by generated matches where possible; you'll be told when a rule has to give</div>
+            </div>
+          )}
+
           {/* Winning Score */}
           <div>
             <div className="flex items-center gap-2 mb-3">
               <Target className="w-4 h-4 text-foos-accent" />
               <span className="text-slate-400 text-xs font-bold uppercase tracking-wider">First to Score</span>
-              {localSettings.winningScore === 10 && (
+              {isUnicornReachable(localSettings) && (
                 <span className="text-lg" title="Unicorn bonus active at this score!">🦄</span>
               )}
             </div>
@@ -140,7 +444,15 @@ const OptionsModal: React.FC<Props> = ({
                 min="1"
                 max="20"
                 value={localSettings.winningScore}
-                onChange={(e) => setLocalSettings(prev => ({ ...prev, winningScore: parseInt(e.target.value) }))}
+                onChange={(e) => {
+                  // A score cap keeps its distance from the winning score
+                  const winningScore = parseInt(e.target.value);
+                  setLocalSettings(prev => ({
+                    ...prev,
+                    winningScore,
+                    scoreCap: prev.scoreCap === null ? null : prev.scoreCap - prev.winningScore + winningScore,
+                  }));
+                }}
                 className="w-full h-2 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-foos-accent"
               />
               <div className="flex justify-between text-[10px] text-slate-600 mt-1 font-bold">
@@ -153,6 +465,151 @@ const OptionsModal: React.FC<Props> = ({
             </div>
           </div>
 
+          {/* Win By (deuce) */}
+          <div>
+            <div className="flex items-center gap-2 mb-3">
+              <Swords className="w-4 h-4 text-foos-accent" />
+              <span className="text-slate-400 text-xs font-bold uppercase tracking-wider">Win By</span>
+            </div>
+            <p className="text-slate-500 text-xs mb-3">
+              With win by 2, a match level at {localSettings.winningScore - 1}-{localSettings.winningScore - 1} goes to deuce and plays on until one side leads by two. An optional cap ends it at that score.
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              {[1, 2].map(winBy => (
+                <button
+                  key={winBy}
+                  onClick={() => setLocalSettings(prev => ({ ...prev, winBy, scoreCap: winBy > 1 ? prev.scoreCap : null }))}
+                  className={`py-2 rounded-xl font-bold text-sm transition border ${
+                    localSettings.winBy === winBy
+                      ? 'bg-foos-accent/10 border-foos-accent text-foos-accent'
+                      : 'bg-slate-900 border-slate-800 text-slate-400 hover:border-slate-600'
+                  }`}
+                >
+                  {winBy === 1 ? 'First to Score' : 'Win by 2'}
+                </button>
+              ))}
+            </div>
+            {localSettings.winBy > 1 && (
+              <div className="flex items-center justify-between mt-2">
+                <span className="text-slate-500 text-xs">Score cap</span>
+                <div className="flex gap-1">
+                  {[null, localSettings.winningScore + 2, localSettings.winningScore + 5].map(scoreCap => (
+                    <button
+                      key={scoreCap ?? 'none'}
+                      onClick={() => setLocalSettings(prev => ({ ...prev, scoreCap }))}
+                      className={`px-3 py-1.5 rounded-lg font-bold text-sm transition border ${
+                        localSettings.scoreCap === scoreCap
+                          ? 'bg-foos-accent/10 border-foos-accent text-foos-accent'
+                          : 'bg-slate-900 border-slate-800 text-slate-400 hover:border-slate-600'
+                      }`}
+                    >
+                      {scoreCap ?? 'None'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Match Clock */}
+          <div>
+            <div className="flex items-center gap-2 mb-3">
+              <Timer className="w-4 h-4 text-foos-accent" />
+              <span className="text-slate-400 text-xs font-bold uppercase tracking-wider">Match Clock</span>
+            </div>
+            <div className="grid grid-cols-4 gap-2">
+              {MATCH_MINUTES.map(matchMinutes => (
+                <button
+                  key={matchMinutes ?? 'off'}
+                  onClick={() => setLocalSettings(prev => ({ ...prev, matchMinutes }))}
+                  className={`py-2 rounded-xl font-bold text-sm transition border ${
+                    localSettings.matchMinutes === matchMinutes
+                      ? 'bg-foos-accent/10 border-foos-accent text-foos-accent'
+                      : 'bg-slate-900 border-slate-800 text-slate-400 hover:border-slate-600'
+                  }`}
+                >
+                  {matchMinutes === null ? 'Off' : `${matchMinutes} min`}
+                </button>
+              ))}
+            </div>
+            <div className="text-slate-500 text-xs mt-2">
+              {localSettings.matchMinutes === null
+                ? 'Matches play to the winning score'
+                : 'Reaching the winning score still ends a match early. When time runs out the side ahead wins; level scores go to golden goal'}
+            </div>
+          </div>
+
+          {/* Series (best of N) */}
+          <div>
+            <div className="flex items-center gap-2 mb-3">
+              <Layers className="w-4 h-4 text-foos-accent" />
+              <span className="text-slate-400 text-xs font-bold uppercase tracking-wider">Series</span>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              {BEST_OF_OPTIONS.map(bestOf => (
+                <button
+                  key={bestOf}
+                  onClick={() => setLocalSettings(prev => ({ ...prev, bestOf }))}
+                  className={`py-2 rounded-xl font-bold text-sm transition border ${
+                    localSettings.bestOf === bestOf
+                      ? 'bg-foos-accent/10 border-foos-accent text-foos-accent'
+                      : 'bg-slate-900 border-slate-800 text-slate-400 hover:border-slate-600'
+                  }`}
+                >
+                  {bestOf === 1 ? 'Single Game' : `Best of ${bestOf}`}
+                </button>
+              ))}
+            </div>
+            {localSettings.bestOf > 1 && (
+              <>
+                <div className="grid grid-cols-3 gap-2 mt-2">
+                  {SERIES_SCOPE_OPTIONS.map(option => (
+                    <button
+                      key={option.value}
+                      onClick={() => setLocalSettings(prev => ({ ...prev, seriesScope: option.value }))}
+                      className={`py-2 rounded-xl font-bold text-xs transition border ${
+                        localSettings.seriesScope === option.value
+                          ? 'bg-foos-accent/10 border-foos-accent text-foos-accent'
+                          : 'bg-slate-900 border-slate-800 text-slate-400 hover:border-slate-600'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+                <button
+                  onClick={() => setLocalSettings(prev => ({ ...prev, switchSides: !prev.switchSides }))}
+                  className={`mt-2 w-full flex items-center justify-between p-4 rounded-xl border transition ${
+                    localSettings.switchSides
+                      ? 'bg-foos-accent/10 border-foos-accent'
+                      : 'bg-slate-900 border-slate-800 hover:border-slate-600'
+                  }`}
+                >
+                  <div className="text-left">
+                    <div className={`font-bold ${localSettings.switchSides ? 'text-foos-accent' : 'text-slate-400'}`}>
+                      Switch Sides
+                    </div>
+                    <div className="text-slate-500 text-xs">
+                      Teams change ends between games
+                    </div>
+                  </div>
+                  <div className={`w-12 h-7 rounded-full p-1 transition ${
+                    localSettings.switchSides ? 'bg-foos-accent' : 'bg-slate-700'
+                  }`}>
+                    <div className={`w-5 h-5 rounded-full bg-white shadow-md transition transform ${
+                      localSettings.switchSides ? 'translate-x-5' : 'translate-x-0'
+                    }`} />
+                  </div>
+                </button>
+              </>
+            )}
+            <div className="text-slate-500 text-xs mt-2">
+              {localSettings.bestOf === 1
+                ? 'Every match is a single game'
+                : `The first to win ${getGamesToWin(localSettings.bestOf)} games wins the match. Goals from every game count`}
+            </div>
+          </div>
+
           {/* Unicorn Bonus */}
           <div>
             <div className="flex items-center gap-2 mb-3">
@@ -160,8 +617,23 @@ const OptionsModal: React.FC<Props> = ({
               <span className="text-slate-400 text-xs font-bold uppercase tracking-wider">Unicorn Bonus</span>
             </div>
             <p className="text-slate-500 text-xs mb-3">
-              Extra points awarded for a 10-0 shutout victory (only when target score is 10)
+              Extra points for a shutout win, counted from the chosen score (unicorns need a target score at least that high)
             </p>
+            <div className="grid grid-cols-3 gap-2 mb-2">
+              {UNICORN_MIN_SCORES.map(value => (
+                <button
+                  key={value}
+                  onClick={() => setLocalSettings(prev => ({ ...prev, unicornMinScore: value }))}
+                  className={`py-2 rounded-xl font-bold text-sm transition border ${
+                    localSettings.unicornMinScore === value
+                      ? 'bg-pink-500/20 border-pink-500 text-pink-400'
+                      : 'bg-slate-900 border-slate-800 text-slate-400 hover:border-slate-600'
+                  }`}
+                >
+                  {getUnicornLabel({ ...localSettings, unicornMinScore: value })}
+                </button>
+              ))}
+            </div>
             <div className="grid grid-cols-3 gap-2">
               {([0, 1, 2] as const).map(value => (
                 <button
@@ -179,6 +651,80 @@ const OptionsModal: React.FC<Props> = ({
             </div>
           </div>
 
+          {/* Points */}
+          <div>
+            <div className="flex items-center gap-2 mb-3">
+              <Medal className="w-4 h-4 text-foos-gold" />
+              <span className="text-slate-400 text-xs font-bold uppercase tracking-wider">Points</span>
+            </div>
+            <div className="space-y-2">
+              {POINTS_OPTIONS.map(option => (
+                <div key={option.key} className="flex items-center justify-between">
+                  <span className="text-slate-500 text-xs">{option.label}</span>
+                  <div className="flex gap-1">
+                    {option.values.map(value => (
+                      <button
+                        key={value}
+                        onClick={() => setLocalSettings(prev => ({ ...prev, [option.key]: value }))}
+                        className={`w-12 py-1.5 rounded-lg font-bold text-sm transition border ${
+                          localSettings[option.key] === value
+                            ? 'bg-foos-accent/10 border-foos-accent text-foos-accent'
+                            : 'bg-slate-900 border-slate-800 text-slate-400 hover:border-slate-600'
+                        }`}
+                      >
+                        {value}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Tiebreakers */}
+          <div>
+            <div className="flex items-center gap-2 mb-3">
+              <Scale className="w-4 h-4 text-foos-gold" />
+              <span className="text-slate-400 text-xs font-bold uppercase tracking-wider">Tiebreakers</span>
+            </div>
+            <p className="text-slate-500 text-xs mb-3">
+              Players level on points are separated in this order
+            </p>
+            <div className="space-y-2">
+              {localSettings.tiebreakers.map((tiebreaker, index) => (
+                <div key={tiebreaker} className="flex items-center gap-2 bg-slate-900 border border-slate-800 rounded-xl px-3 py-2">
+                  <span className="text-slate-600 font-mono text-xs font-bold w-4">{index + 1}</span>
+                  <span className="flex-1 text-white font-bold text-sm">{TIEBREAKER_LABELS[tiebreaker]}</span>
+                  {index > 0 && (
+                    <button onClick={() => handleMoveTiebreakerUp(index)} className="text-slate-500 hover:text-white transition" title="Move up">
+                      <ChevronUp className="w-4 h-4" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setLocalSettings(prev => ({ ...prev, tiebreakers: prev.tiebreakers.filter(t => t !== tiebreaker) }))}
+                    className="text-slate-500 hover:text-white transition"
+                    title="Remove"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-2 mt-2">
+              {(Object.keys(TIEBREAKER_LABELS) as Tiebreaker[])
+                .filter(tiebreaker => !localSettings.tiebreakers.includes(tiebreaker))
+                .map(tiebreaker => (
+                  <button
+                    key={tiebreaker}
+                    onClick={() => setLocalSettings(prev => ({ ...prev, tiebreakers: [...prev.tiebreakers, tiebreaker] }))}
+                    className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-bold text-slate-400 bg-slate-900 border border-slate-800 hover:border-slate-600 transition"
+                  >
+                    <Plus className="w-3 h-3" /> {TIEBREAKER_LABELS[tiebreaker]}
+                  </button>
+                ))}
+            </div>
+          </div>
+
           {/* Position Mode */}
           <div>
             <div className="flex items-center gap-2 mb-3">
@@ -187,7 +733,8 @@ const OptionsModal: React.FC<Props> = ({
             </div>
             <button
               onClick={() => setLocalSettings(prev => ({ ...prev, isPositionMode: !prev.isPositionMode }))}
-              className={`w-full flex items-center justify-between p-4 rounded-xl border transition ${
+              disabled={localSettings.isSingles}
+              className={`w-full flex items-center justify-between p-4 rounded-xl border transition disabled:opacity-40 ${
                 localSettings.isPositionMode
                   ? 'bg-foos-accent/10 border-foos-accent'
                   : 'bg-slate-900 border-slate-800 hover:border-slate-600'
@@ -198,7 +745,7 @@ const OptionsModal: React.FC<Props> = ({
                   {localSettings.isPositionMode ? 'Enabled' : 'Disabled'}
                 </div>
                 <div className="text-slate-500 text-xs">
-                  Track attack & defense positions
+                  {localSettings.isSingles ? 'Not used in singles' : 'Track attack & defense positions'}
                 </div>
               </div>
               <div className={`w-12 h-7 rounded-full p-1 transition ${
@@ -209,6 +756,32 @@ const OptionsModal: React.FC<Props> = ({
                 }`} />
               </div>
             </button>
+            {localSettings.isPositionMode && !localSettings.isSingles && (
+              <button
+                onClick={() => setLocalSettings(prev => ({ ...prev, preferStrongerPosition: !prev.preferStrongerPosition }))}
+                className={`mt-2 w-full flex items-center justify-between p-4 rounded-xl border transition ${
+                  localSettings.preferStrongerPosition
+                    ? 'bg-foos-accent/10 border-foos-accent'
+                    : 'bg-slate-900 border-slate-800 hover:border-slate-600'
+                }`}
+              >
+                <div className="text-left">
+                  <div className={`font-bold ${localSettings.preferStrongerPosition ? 'text-foos-accent' : 'text-slate-400'}`}>
+                    Stronger Position
+                  </div>
+                  <div className="text-slate-500 text-xs">
+                    Put players where their position rating is higher
+                  </div>
+                </div>
+                <div className={`w-12 h-7 rounded-full p-1 transition ${
+                  localSettings.preferStrongerPosition ? 'bg-foos-accent' : 'bg-slate-700'
+                }`}>
+                  <div className={`w-5 h-5 rounded-full bg-white shadow-md transition transform ${
+                    localSettings.preferStrongerPosition ? 'translate-x-5' : 'translate-x-0'
+                  }`} />
+                </div>
+              </button>
+            )}
           </div>
 
           {/* Voice Announcements */}
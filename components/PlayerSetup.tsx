@@ -1,8 +1,8 @@
 import React, { useState } from 'react';
-import { PlayerView, GlobalPlayer, Toast } from '../types';
+import { PlayerView, GlobalPlayer, Toast, FixedTeam } from '../types';
 import { useImageCapture } from '../hooks/useImageCapture';
 import { useAvatarQueue } from '../hooks/useAvatarQueue';
-import { Loader2, Camera, Sparkles, UserPlus, Trash2, ArrowRight, X, SwitchCamera, KeyRound, ArrowLeft, Users, Plus, Check } from 'lucide-react';
+import { Loader2, Camera, Sparkles, UserPlus, Trash2, ArrowRight, X, SwitchCamera, KeyRound, ArrowLeft, Users, Plus, Check, Link2 } from 'lucide-react';
 
 interface Props {
   players: PlayerView[];
@@ -11,6 +11,12 @@ interface Props {
   onAddPlayer: (globalPlayerId: string) => void;
   onCreatePlayer: (nickname: string, photoUrl: string | null) => Promise<string>;
   onRemovePlayer: (globalPlayerId: string) => void;
+  isSingles: boolean;
+  isFixedTeams: boolean;
+  fixedTeams: FixedTeam[];
+  onToggleFixedTeams: () => void;
+  onAddFixedTeam: (name: string, playerIds: [string, string]) => void;
+  onRemoveFixedTeam: (teamId: string) => void;
   onFinishSetup: () => void;
   onBackToLobby: () => void;
   addToast: (toast: Omit<Toast, 'id'>) => string;
@@ -23,6 +29,12 @@ const PlayerSetup: React.FC<Props> = ({
   onAddPlayer,
   onCreatePlayer,
   onRemovePlayer,
+  isSingles,
+  isFixedTeams,
+  fixedTeams,
+  onToggleFixedTeams,
+  onAddFixedTeam,
+  onRemoveFixedTeam,
   onFinishSetup,
   onBackToLobby,
   addToast,
@@ -33,6 +45,9 @@ const PlayerSetup: React.FC<Props> = ({
   const [selectedPlayerIds, setSelectedPlayerIds] = useState<Set<string>>(new Set());
   // Track if user wants AI makeover for the new player
   const [pendingAiMakeover, setPendingAiMakeover] = useState(false);
+  // New fixed team form
+  const [teamName, setTeamName] = useState('');
+  const [teamPlayerIds, setTeamPlayerIds] = useState<[string, string]>(['', '']);
 
   const {
     imagePreview,
@@ -64,6 +79,29 @@ const PlayerSetup: React.FC<Props> = ({
     gp => !players.some(p => p.id === gp.id)
   );
 
+  // Players not yet registered in a fixed team
+  const unteamedPlayers = players.filter(p => !fixedTeams.some(t => t.playerIds.includes(p.id)));
+  const minPlayers = isSingles ? 2 : 4;
+  const canStart = isFixedTeams ? fixedTeams.length >= 2 : players.length >= minPlayers;
+
+  const handleAddTeam = (e: React.FormEvent) => {
+    e.preventDefault();
+    const [id1, id2] = teamPlayerIds;
+    if (!id1 || !id2 || id1 === id2) return;
+
+    const getNick = (id: string) => players.find(p => p.id === id)?.nickname ?? '?';
+    const name = teamName.trim() || `${getNick(id1)} & ${getNick(id2)}`;
+
+    if (fixedTeams.some(t => t.name.toLowerCase() === name.toLowerCase())) {
+      addToast({ type: 'error', message: `A team called "${name}" already exists.` });
+      return;
+    }
+
+    onAddFixedTeam(name, [id1, id2]);
+    setTeamName('');
+    setTeamPlayerIds(['', '']);
+  };
+
   const handleGenerateAvatar = () => {
     // Mark that user wants AI makeover - will be processed on submit
     if (canStartBackgroundGeneration()) {
@@ -306,9 +344,9 @@ const PlayerSetup: React.FC<Props> = ({
               <h2 className="text-fluid-lg font-black text-white uppercase italic">Roster ({players.length})</h2>
               <button
                 onClick={onFinishSetup}
-                disabled={players.length < 4}
+                disabled={!canStart}
                 className={`flex items-center gap-2 font-bold px-4 py-2.5 rounded-button transition text-fluid-sm ${
-                  players.length >= 4
+                  canStart
                     ? 'bg-foos-brand text-white hover:bg-orange-600 shadow-button-brand active:scale-95'
                     : 'bg-slate-800 text-slate-600 cursor-not-allowed'
                 }`}
@@ -317,9 +355,9 @@ const PlayerSetup: React.FC<Props> = ({
               </button>
             </div>
 
-            {players.length < 4 && (
+            {!canStart && (
               <div className="text-fluid-xs text-slate-500 mb-3">
-                Need at least 4 players to start
+                {isFixedTeams ? 'Need at least 2 teams to start' : `Need at least ${minPlayers} players to start`}
               </div>
             )}
 
@@ -364,6 +402,100 @@ const PlayerSetup: React.FC<Props> = ({
             </div>
           </div>
         </div>
+
+        {/* Fixed Teams (doubles only) */}
+        {!isSingles && (
+          <div className="bg-foos-panel p-4 md:p-6 rounded-card-lg shadow-card border border-slate-800">
+            <button
+              onClick={onToggleFixedTeams}
+              className="w-full flex items-center justify-between gap-4"
+            >
+              <div className="text-left">
+                <h2 className="text-fluid-lg font-black text-white uppercase italic flex items-center gap-2">
+                  <Link2 className="w-5 h-5 text-foos-accent" /> Fixed Teams
+                </h2>
+                <div className="text-fluid-xs text-slate-500">
+                  Register pairs that play together for the whole tournament
+                </div>
+              </div>
+              <div className={`w-12 h-7 rounded-full p-1 transition flex-shrink-0 ${
+                isFixedTeams ? 'bg-foos-accent' : 'bg-slate-700'
+              }`}>
+                <div className={`w-5 h-5 rounded-full bg-white shadow-md transition transform ${
+                  isFixedTeams ? 'translate-x-5' : 'translate-x-0'
+                }`} />
+              </div>
+            </button>
+
+            {isFixedTeams && (
+              <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-6">
+                <form onSubmit={handleAddTeam} className="space-y-3">
+                  <input
+                    type="text"
+                    value={teamName}
+                    onChange={(e) => setTeamName(e.target.value)}
+                    className="w-full bg-slate-900 border border-slate-700 rounded-lg p-3 focus:ring-2 focus:ring-foos-brand text-white font-bold outline-none transition placeholder-slate-600 text-fluid-sm"
+                    placeholder="Team name (optional), e.g. Team Rocket"
+                  />
+                  <div className="grid grid-cols-2 gap-2">
+                    {[0, 1].map(slot => (
+                      <select
+                        key={slot}
+                        value={teamPlayerIds[slot]}
+                        onChange={(e) => setTeamPlayerIds(prev => slot === 0 ? [e.target.value, prev[1]] : [prev[0], e.target.value])}
+                        className="w-full bg-slate-900 border border-slate-700 rounded-lg p-3 text-white text-fluid-sm outline-none focus:ring-2 focus:ring-foos-brand"
+                      >
+                        <option value="">Player {slot + 1}</option>
+                        {unteamedPlayers
+                          .filter(p => p.id !== teamPlayerIds[slot === 0 ? 1 : 0])
+                          .map(p => (
+                            <option key={p.id} value={p.id}>{p.nickname}</option>
+                          ))}
+                      </select>
+                    ))}
+                  </div>
+                  <button
+                    type="submit"
+                    disabled={!teamPlayerIds[0] || !teamPlayerIds[1]}
+                    className="w-full bg-foos-accent hover:bg-cyan-400 text-slate-900 font-black tracking-wide py-3 rounded-button flex items-center justify-center gap-2 transition transform active:scale-95 shadow-button-accent text-fluid-sm disabled:bg-slate-800 disabled:text-slate-600 disabled:shadow-none"
+                  >
+                    <Plus className="w-4 h-4" />
+                    ADD TEAM
+                  </button>
+                  {unteamedPlayers.length > 0 && (
+                    <div className="text-fluid-xs text-slate-500">
+                      {unteamedPlayers.length} player{unteamedPlayers.length > 1 ? 's' : ''} without a team won't be scheduled.
+                    </div>
+                  )}
+                </form>
+
+                <div className="space-y-2">
+                  {fixedTeams.length === 0 && (
+                    <div className="flex items-center justify-center text-slate-600 italic py-6 text-fluid-sm">
+                      No teams registered yet.
+                    </div>
+                  )}
+                  {fixedTeams.map(team => (
+                    <div key={team.id} className="flex items-center justify-between bg-slate-900 p-3 rounded-card border border-slate-800 hover:border-slate-700 transition-all">
+                      <div className="min-w-0">
+                        <div className="font-bold text-white text-fluid-sm truncate">{team.name}</div>
+                        <div className="text-fluid-xs text-slate-500 truncate">
+                          {team.playerIds.map(id => players.find(p => p.id === id)?.nickname ?? '?').join(' & ')}
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => onRemoveFixedTeam(team.id)}
+                        className="text-slate-600 hover:text-foos-red transition p-2"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Player Pool Modal */}
@@ -0,0 +1,36 @@
+import React from 'react';
+import { RatingHistoryEntry } from '../types';
+import { DEFAULT_RATING } from '../services/ratingService';
+
+interface RatingChartProps {
+  history: RatingHistoryEntry[];
+}
+
+const WIDTH = 200;
+const HEIGHT = 40;
+
+// Sparkline of a player's rating over time, starting from the default rating
+const RatingChart: React.FC<RatingChartProps> = ({ history }) => {
+  if (history.length === 0) {
+    return <div className="text-2xs text-slate-600">No rated matches yet</div>;
+  }
+
+  const ratings = [history[0].rating - history[0].delta, ...history.map(entry => entry.rating)];
+  const min = Math.min(...ratings, DEFAULT_RATING);
+  const max = Math.max(...ratings, DEFAULT_RATING);
+  const range = max - min || 1;
+
+  const toY = (rating: number) => HEIGHT - ((rating - min) / range) * HEIGHT;
+  const points = ratings
+    .map((rating, i) => `${(i / (ratings.length - 1)) * WIDTH},${toY(rating)}`)
+    .join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="w-full h-10 overflow-visible">
+      <line x1={0} x2={WIDTH} y1={toY(DEFAULT_RATING)} y2={toY(DEFAULT_RATING)} className="stroke-slate-700" strokeDasharray="4 4" strokeWidth={1} />
+      <polyline points={points} fill="none" className="stroke-foos-accent" strokeWidth={2} strokeLinejoin="round" vectorEffect="non-scaling-stroke" />
+    </svg>
+  );
+};
+
+export default RatingChart;
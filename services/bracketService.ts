@@ -0,0 +1,293 @@
+import { PlayerView, Match, Team, Bracket, BracketPairing, BracketElimination, BracketSide } from '../types';
+import { generateId, assignRoles, getTeamPlayerIds } from './tournamentLogic';
+
+// Supported knockout sizes (number of seeded players)
+export const KNOCKOUT_SIZES = [4, 8, 16];
+
+// Placeholder for a slot that is still waiting on its feeder match
+const createEmptyTeam = (): Team => ({ attackerId: '', defenderId: '', score: 0 });
+
+// A team is decided once its feeder match has been played
+export const isTeamDecided = (team: Team): boolean => team.attackerId !== '' && team.defenderId !== '';
+
+// A match can only be started once both teams are known
+export const isMatchReady = (match: Match): boolean => isTeamDecided(match.team1) && isTeamDecided(match.team2);
+
+// Standard bracket order so the top seeds can only meet in the later rounds
+// e.g. 4 teams -> [0, 3, 1, 2] (1 v 4, 2 v 3)
+const getSeedOrder = (teamCount: number): number[] => {
+  let order = [0];
+  while (order.length < teamCount) {
+    const size = order.length * 2;
+    order = order.flatMap(seed => [seed, size - 1 - seed]);
+  }
+  return order;
+};
+
+// Round label, counted back from the final
+export const getRoundName = (round: number, totalRounds: number): string => {
+  const roundsFromFinal = totalRounds - 1 - round;
+  if (roundsFromFinal === 0) return 'Final';
+  if (roundsFromFinal === 1) return 'Semi-finals';
+  if (roundsFromFinal === 2) return 'Quarter-finals';
+  return `Round of ${2 ** (roundsFromFinal + 1)}`;
+};
+
+const createBracketMatch = (side: BracketSide, round: number, position: number): Match => ({
+  id: generateId(),
+  status: 'scheduled',
+  timestamp: Date.now(),
+  team1: createEmptyTeam(),
+  team2: createEmptyTeam(),
+  bracket: { side, round, position },
+});
+
+const slotFor = (position: number): 'team1' | 'team2' => position % 2 === 0 ? 'team1' : 'team2';
+
+// Build the bracket for seeded teams (best first).
+//
+// Double elimination losers' bracket, for T teams and W = log2(T) winners' rounds:
+// - round 0 pairs up the losers of the first winners' round
+// - odd rounds face the survivors against the teams dropping out of the next winners' round
+// - even rounds halve the field again
+// The losers' champion meets the winners' champion in the grand final.
+const buildKnockoutBracket = (
+  teams: { attackerId: string, defenderId: string }[],
+  seedIds: string[],
+  pairing: BracketPairing,
+  elimination: BracketElimination
+): { bracket: Bracket, matches: Match[] } => {
+  const teamCount = teams.length;
+  const order = getSeedOrder(teamCount);
+  const totalRounds = Math.log2(teamCount);
+
+  // Double elimination needs stable teams to track who has already lost once
+  const bracketPairing = elimination === 'double' ? 'fixed' : pairing;
+
+  const winnersRounds = Array.from({ length: totalRounds }, (_, round) =>
+    Array.from({ length: teamCount / 2 ** (round + 1) }, (_, position) => createBracketMatch('winners', round, position))
+  );
+
+  // Winners advance through the winners' bracket
+  winnersRounds.forEach((round, r) => round.forEach((match, i) => {
+    const next = winnersRounds[r + 1]?.[Math.floor(i / 2)];
+    if (next) Object.assign(match.bracket!, { nextMatchId: next.id, nextSlot: slotFor(i) });
+  }));
+
+  let losersRounds: Match[][] = [];
+  let grandFinal: Match | null = null;
+
+  if (elimination === 'double') {
+    losersRounds = Array.from({ length: 2 * (totalRounds - 1) }, (_, round) =>
+      Array.from({ length: teamCount / 2 ** (Math.floor(round / 2) + 2) }, (_, position) => createBracketMatch('losers', round, position))
+    );
+    const final = createBracketMatch('grandFinal', 0, 0);
+    grandFinal = final;
+
+    // Losers drop from the winners' bracket
+    winnersRounds.forEach((round, r) => round.forEach((match, i) => {
+      if (r === 0) {
+        const target = losersRounds[0]?.[Math.floor(i / 2)];
+        // With only two teams there is no losers' bracket: straight to the grand final
+        Object.assign(match.bracket!, target
+          ? { loserNextMatchId: target.id, loserNextSlot: slotFor(i) }
+          : { loserNextMatchId: final.id, loserNextSlot: 'team2' });
+      } else {
+        // Drop in reverse order to avoid immediate rematches
+        const targetRound = losersRounds[2 * r - 1];
+        const target = targetRound[targetRound.length - 1 - i];
+        Object.assign(match.bracket!, { loserNextMatchId: target.id, loserNextSlot: 'team2' });
+      }
+    }));
+
+    // Survivors advance through the losers' bracket
+    losersRounds.forEach((round, k) => round.forEach((match, i) => {
+      const nextRound = losersRounds[k + 1];
+      if (!nextRound) {
+        Object.assign(match.bracket!, { nextMatchId: final.id, nextSlot: 'team2' });
+      } else if (k % 2 === 0) {
+        Object.assign(match.bracket!, { nextMatchId: nextRound[i].id, nextSlot: 'team1' });
+      } else {
+        Object.assign(match.bracket!, { nextMatchId: nextRound[Math.floor(i / 2)].id, nextSlot: slotFor(i) });
+      }
+    }));
+
+    // Winners' champion takes the first grand final slot
+    Object.assign(winnersRounds[totalRounds - 1][0].bracket!, { nextMatchId: final.id, nextSlot: 'team1' });
+  }
+
+  // Seed the first round
+  winnersRounds[0] = winnersRounds[0].map((match, position) => ({
+    ...match,
+    team1: { ...teams[order[position * 2]], score: 0 },
+    team2: { ...teams[order[position * 2 + 1]], score: 0 },
+  }));
+
+  const matches = [...winnersRounds.flat(), ...losersRounds.flat(), ...(grandFinal ? [grandFinal] : [])];
+
+  return {
+    bracket: {
+      elimination,
+      pairing: bracketPairing,
+      seedIds,
+      matchIds: matches.map(m => m.id),
+      createdAt: Date.now(),
+    },
+    matches,
+  };
+};
+
+// Build a knockout bracket from seeded players (best first).
+// Seeds are paired strongest with weakest so every team has a similar combined seed.
+export const createKnockoutBracket = (
+  seeds: PlayerView[],
+  pairing: BracketPairing,
+  elimination: BracketElimination = 'single'
+): { bracket: Bracket, matches: Match[] } => {
+  const teamCount = seeds.length / 2;
+  const teams = seeds.slice(0, teamCount).map((p, i) => assignRoles(p, seeds[seeds.length - 1 - i]));
+  return buildKnockoutBracket(teams, seeds.map(p => p.id), pairing, elimination);
+};
+
+// Fixed teams (or singles players): the seeded teams (best first) are already set and stay together
+export const createTeamKnockoutBracket = (
+  teams: { attackerId: string, defenderId: string }[],
+  elimination: BracketElimination = 'single'
+): { bracket: Bracket, matches: Match[] } => {
+  const seedIds = teams.flatMap(t => getTeamPlayerIds({ ...t, score: 0 }));
+  return buildKnockoutBracket(teams, seedIds, 'fixed', elimination);
+};
+
+// Put a team into a bracket slot
+const placeTeam = (matches: Match[], matchId: string, slot: 'team1' | 'team2', team: Team, pairing: BracketPairing): Match[] => {
+  return matches.map(m => {
+    if (m.id !== matchId) return m;
+
+    const filled: Match = {
+      ...m,
+      [slot]: { attackerId: team.attackerId, defenderId: team.defenderId, score: 0 },
+    };
+
+    // Rotating pairs: once both winning pairs are in, swap partners across them
+    if (pairing === 'rotating' && isMatchReady(filled)) {
+      return {
+        ...filled,
+        team1: { attackerId: filled.team1.attackerId, defenderId: filled.team2.defenderId, score: 0 },
+        team2: { attackerId: filled.team2.attackerId, defenderId: filled.team1.defenderId, score: 0 },
+      };
+    }
+
+    return filled;
+  });
+};
+
+// Move the teams of a completed bracket match on: winners to their next slot,
+// double-elimination losers down to the losers' bracket. Crowns the champions
+// when the final (or grand final) has been decided.
+export const advanceBracket = (matches: Match[], completedMatch: Match, bracket: Bracket): { matches: Match[], bracket: Bracket } => {
+  const info = completedMatch.bracket;
+  if (!info || !completedMatch.winner) return { matches, bracket };
+
+  const winningTeam = completedMatch[completedMatch.winner];
+  const losingTeam = completedMatch[completedMatch.winner === 'team1' ? 'team2' : 'team1'];
+  const champions = { ...bracket, championIds: getTeamPlayerIds(winningTeam) };
+
+  // Grand final: the losers' champion (team2) has to win twice, so a first win forces a reset
+  if (info.side === 'grandFinal') {
+    if (info.round === 0 && completedMatch.winner === 'team2') {
+      const reset: Match = {
+        ...createBracketMatch('grandFinal', 1, 0),
+        team1: { ...completedMatch.team1, score: 0 },
+        team2: { ...completedMatch.team2, score: 0 },
+      };
+      return {
+        matches: [...matches, reset],
+        bracket: { ...bracket, matchIds: [...bracket.matchIds, reset.id] },
+      };
+    }
+    return { matches, bracket: champions };
+  }
+
+  if (!info.nextMatchId || !info.nextSlot) {
+    return { matches, bracket: champions };
+  }
+
+  let updatedMatches = placeTeam(matches, info.nextMatchId, info.nextSlot, winningTeam, bracket.pairing);
+
+  if (info.loserNextMatchId && info.loserNextSlot) {
+    updatedMatches = placeTeam(updatedMatches, info.loserNextMatchId, info.loserNextSlot, losingTeam, bracket.pairing);
+  }
+
+  return { matches: updatedMatches, bracket };
+};
+
+// Matches a bracket match's result fed: the slots its teams moved into, and any grand final reset
+const getFedMatches = (matches: Match[], match: Match): Match[] => {
+  const info = match.bracket;
+  if (!info) return [];
+  const isResetFor = (m: Match) => info.side === 'grandFinal' && info.round === 0 && m.bracket?.side === 'grandFinal' && m.bracket.round === 1;
+  return matches.filter(m => m.id === info.nextMatchId || m.id === info.loserNextMatchId || isResetFor(m));
+};
+
+// A knockout result can still be corrected while the matches it fed have not been played
+export const canChangeBracketResult = (matches: Match[], match: Match): boolean =>
+  getFedMatches(matches, match).every(m => m.status === 'scheduled');
+
+// Take a team back out of a bracket slot. Rotating pairs swap partners back first.
+const clearSlot = (matches: Match[], matchId: string, slot: 'team1' | 'team2', pairing: BracketPairing): Match[] => {
+  return matches.map(m => {
+    if (m.id !== matchId) return m;
+
+    const unrotated: Match = pairing === 'rotating' && isMatchReady(m)
+      ? { ...m, team1: { ...m.team1, defenderId: m.team2.defenderId }, team2: { ...m.team2, defenderId: m.team1.defenderId } }
+      : m;
+    return { ...unrotated, [slot]: createEmptyTeam() };
+  });
+};
+
+// Undo advanceBracket for a completed match (see canChangeBracketResult): its teams
+// leave the slots they moved into, a grand final reset is dropped and nobody is champion
+export const retractBracketResult = (matches: Match[], completedMatch: Match, bracket: Bracket): { matches: Match[], bracket: Bracket } => {
+  const info = completedMatch.bracket;
+  if (!info || !completedMatch.winner) return { matches, bracket };
+
+  const uncrowned = { ...bracket, championIds: undefined };
+
+  if (info.side === 'grandFinal') {
+    const resetIds = new Set(getFedMatches(matches, completedMatch).map(m => m.id));
+    return {
+      matches: matches.filter(m => !resetIds.has(m.id)),
+      bracket: { ...uncrowned, matchIds: bracket.matchIds.filter(id => !resetIds.has(id)) },
+    };
+  }
+
+  if (!info.nextMatchId || !info.nextSlot) {
+    return { matches, bracket: uncrowned };
+  }
+
+  let updatedMatches = clearSlot(matches, info.nextMatchId, info.nextSlot, bracket.pairing);
+
+  if (info.loserNextMatchId && info.loserNextSlot) {
+    updatedMatches = clearSlot(updatedMatches, info.loserNextMatchId, info.loserNextSlot, bracket.pairing);
+  }
+
+  return { matches: updatedMatches, bracket };
+};
+
+// Bracket matches grouped by side and round
+export const getBracketRounds = (bracket: Bracket, matches: Match[]): Record<BracketSide, Match[][]> => {
+  const rounds: Record<BracketSide, Match[][]> = { winners: [], losers: [], grandFinal: [] };
+
+  bracket.matchIds.forEach(id => {
+    const match = matches.find(m => m.id === id);
+    if (!match?.bracket) return;
+    const { side, round } = match.bracket;
+    rounds[side][round] = [...(rounds[side][round] ?? []), match];
+  });
+
+  (Object.keys(rounds) as BracketSide[]).forEach(side => {
+    rounds[side] = rounds[side].map(round => [...round].sort((a, b) => a.bracket!.position - b.bracket!.position));
+  });
+
+  return rounds;
+};
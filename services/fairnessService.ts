@@ -0,0 +1,37 @@
+import { PlayerView, TournamentPlayer, TournamentSettings } from '../types';
+
+const MS_PER_MINUTE = 60 * 1000;
+
+// Minutes a player has been checked in, over all their stretches of availability
+export const getMinutesPresent = (player: Pick<TournamentPlayer, 'checkedInAt' | 'presentMs'>, now = Date.now()): number =>
+  ((player.presentMs ?? 0) + (player.checkedInAt ? now - player.checkedInAt : 0)) / MS_PER_MINUTE;
+
+// Check a player in or out, banking the time of the stretch that ends
+export const toggleCheckIn = (player: TournamentPlayer, now = Date.now()): TournamentPlayer => player.isAvailable
+  ? { ...player, isAvailable: false, checkedInAt: undefined, presentMs: (player.presentMs ?? 0) + (player.checkedInAt ? now - player.checkedInAt : 0) }
+  : { ...player, isAvailable: true, checkedInAt: now };
+
+// Players as matchmaking should see them: gamesPlayed becomes the number of games
+// that decides who needs a game most under the tournament's fairness mode.
+// Only for generating matches, never for display or stats.
+export const applyFairness = (players: PlayerView[], settings: TournamentSettings, now = Date.now()): PlayerView[] => {
+  if (settings.fairness === 'perMinute') {
+    // Credit the time each player missed, next to the longest-present player,
+    // with the games the group has played per minute
+    const minutes = players.map(p => getMinutesPresent(p, now));
+    const totalMinutes = minutes.reduce((sum, m) => sum + m, 0);
+    if (totalMinutes === 0) return players;
+
+    const gamesPerMinute = players.reduce((sum, p) => sum + p.gamesPlayed, 0) / totalMinutes;
+    const longest = Math.max(...minutes);
+    return players.map((p, i) => ({ ...p, gamesPlayed: p.gamesPlayed + gamesPerMinute * (longest - minutes[i]) }));
+  }
+
+  if (settings.fairness === 'catchUp') {
+    const mostPlayed = Math.max(0, ...players.filter(p => p.isAvailable).map(p => p.gamesPlayed));
+    const floor = mostPlayed - settings.catchUpCap;
+    return players.map(p => ({ ...p, gamesPlayed: Math.max(p.gamesPlayed, floor) }));
+  }
+
+  return players;
+};
@@ -0,0 +1,67 @@
+import { GoalEvent, Match, Rod } from '../types';
+
+// Personal goal stats for one player, from the goals recorded with a scorer
+export interface PlayerGoalStats {
+  goals: number;
+  ownGoals: number;
+  rods: Partial<Record<Rod, number>>;
+}
+
+export const ROD_LABELS: Record<Rod, string> = {
+  goalie: 'Goalie',
+  defense: '2-Bar',
+  midfield: '5-Bar',
+  attack: '3-Bar',
+};
+
+// Record a goal for a side (in the game in progress, for a series)
+export const addGoal = (match: Match, team: 'team1' | 'team2', now = Date.now()): Match => ({
+  ...match,
+  goals: [...(match.goals ?? []), { team, timestamp: now, game: (match.games?.length ?? 0) + 1 }],
+});
+
+// Take back a side's latest goal in the game in progress
+export const removeLastGoal = (match: Match, team: 'team1' | 'team2'): Match => {
+  const goals = match.goals ?? [];
+  const game = (match.games?.length ?? 0) + 1;
+  let index = goals.length - 1;
+  while (index >= 0 && !(goals[index].team === team && (goals[index].game ?? 1) === game)) index--;
+  if (index < 0) return match;
+  return { ...match, goals: goals.filter((_, i) => i !== index) };
+};
+
+// Say who scored a goal, and from which rod. A scorer from the other side makes it an own goal.
+export const attributeGoal = (match: Match, index: number, scorerId: string, rod?: Rod): Match => {
+  const goal = match.goals?.[index];
+  if (!goal) return match;
+
+  const scorerTeam = [match.team1.attackerId, match.team1.defenderId].includes(scorerId) ? match.team1 : match.team2;
+  const attributed: GoalEvent = {
+    ...goal,
+    scorerId,
+    rod,
+    // Singles players have no position
+    position: scorerTeam.attackerId === scorerTeam.defenderId ? undefined : scorerTeam.attackerId === scorerId ? 'attacker' : 'defender',
+    isOwnGoal: scorerTeam !== match[goal.team] || undefined,
+  };
+  return { ...match, goals: match.goals!.map((g, i) => i === index ? attributed : g) };
+};
+
+// Personal goals and own goals per player (keyed by globalPlayerId) over completed matches
+export const getPlayerGoalStats = (matches: Match[]): Record<string, PlayerGoalStats> => {
+  const stats: Record<string, PlayerGoalStats> = {};
+  matches.filter(m => m.status === 'completed').forEach(match => {
+    (match.goals ?? []).forEach(goal => {
+      if (!goal.scorerId) return;
+      if (!stats[goal.scorerId]) stats[goal.scorerId] = { goals: 0, ownGoals: 0, rods: {} };
+      const playerStats = stats[goal.scorerId];
+      if (goal.isOwnGoal) {
+        playerStats.ownGoals++;
+        return;
+      }
+      playerStats.goals++;
+      if (goal.rod) playerStats.rods[goal.rod] = (playerStats.rods[goal.rod] ?? 0) + 1;
+    });
+  });
+  return stats;
+};
@@ -0,0 +1,161 @@
+import { PlayerView, Match, TournamentSettings, MatchmakingRatings, MatchmakingStrategyId } from '../types';
+import { generateNextMatch, getPlayersByNeed, getPossibleSplits, pickParticipants, getBrokenPairingRules, createMatch, buildPairingHistory, getPairKey, getMatchupKey, getOpponentRepeats } from './tournamentLogic';
+import { assignTables } from './tableService';
+
+// A matchmaking strategy picks the next match from the available players, the match
+// history and the tournament settings (singles, positions). Ratings are passed in for
+// the strategies that use them. Doubles strategies keep to the pairing rules where
+// they can. Strategies are pure, so they run without React.
+export type MatchmakingStrategy = (
+  players: PlayerView[],
+  matches: Match[],
+  settings: TournamentSettings,
+  ratings?: MatchmakingRatings
+) => Match | null;
+
+// Fisher-Yates shuffle
+const shuffle = <T>(items: T[]): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+// Players who need a game most, split for the fewest repeat teammates
+export const varietyStrategy: MatchmakingStrategy = (players, matches, settings, ratings) =>
+  generateNextMatch(players, matches, settings.isSingles, { positionRatings: ratings?.positionRatings }, settings.pairingRules);
+
+// Random players and teams, regardless of games played
+export const randomStrategy: MatchmakingStrategy = (players, matches, settings, ratings) => {
+  const shuffled = shuffle(players.filter(p => p.isAvailable));
+  if (settings.isSingles) {
+    return shuffled.length < 2 ? null : createMatch([shuffled[0]], [shuffled[1]]);
+  }
+  if (shuffled.length < 4) return null;
+
+  // Random split among those that break the fewest pairing rules
+  const rules = settings.pairingRules;
+  const splits = getPossibleSplits(pickParticipants(shuffled, rules))
+    .map(split => ({ ...split, broken: getBrokenPairingRules(split.t1.map(p => p.id), split.t2.map(p => p.id), rules).length }));
+  const fewestBroken = Math.min(...splits.map(s => s.broken));
+  const candidates = splits.filter(s => s.broken === fewestBroken);
+  const { t1, t2 } = candidates[Math.floor(Math.random() * candidates.length)];
+
+  return createMatch(t1, t2, ratings?.positionRatings);
+};
+
+// Like variety, blended with the closest predicted odds (falls back to variety without ratings)
+export const balancedStrategy: MatchmakingStrategy = (players, matches, settings, ratings) =>
+  generateNextMatch(players, matches, settings.isSingles, ratings, settings.pairingRules);
+
+// Players who need a game most, split so they face the opponents they have met least
+export const newOpponentsStrategy: MatchmakingStrategy = (players, matches, settings, ratings) => {
+  const sortedPlayers = getPlayersByNeed(players);
+  if (sortedPlayers.length < (settings.isSingles ? 2 : 4)) return null;
+
+  const { teammates, opponents, matchups } = buildPairingHistory(matches);
+  const timesMet = (a: PlayerView, b: PlayerView) => opponents[getPairKey(a.id, b.id)] || 0;
+
+  if (settings.isSingles) {
+    const [first, ...rest] = sortedPlayers;
+    const opponent = [...rest].sort((a, b) => {
+      const metDiff = timesMet(first, a) - timesMet(first, b);
+      if (metDiff !== 0) return metDiff;
+      return a.gamesPlayed - b.gamesPlayed;
+    })[0];
+    return createMatch([first], [opponent]);
+  }
+
+  // Broken pairing rules first, then repeat opponents, repeat matchups and repeat teammates
+  const rules = settings.pairingRules;
+  const best = getPossibleSplits(pickParticipants(sortedPlayers, rules))
+    .map(split => ({
+      ...split,
+      brokenRules: getBrokenPairingRules(split.t1.map(p => p.id), split.t2.map(p => p.id), rules).length,
+      opponentRepeats: getOpponentRepeats(split.t1, split.t2, opponents),
+      matchupRepeats: matchups[getMatchupKey(split.t1.map(p => p.id), split.t2.map(p => p.id))] || 0,
+      teammateRepeats: (teammates[getPairKey(split.t1[0].id, split.t1[1].id)] || 0) + (teammates[getPairKey(split.t2[0].id, split.t2[1].id)] || 0),
+    }))
+    .sort((a, b) => {
+      if (a.brokenRules !== b.brokenRules) return a.brokenRules - b.brokenRules;
+      if (a.opponentRepeats !== b.opponentRepeats) return a.opponentRepeats - b.opponentRepeats;
+      if (a.matchupRepeats !== b.matchupRepeats) return a.matchupRepeats - b.matchupRepeats;
+      if (a.teammateRepeats !== b.teammateRepeats) return a.teammateRepeats - b.teammateRepeats;
+      return 0.5 - Math.random();
+    })[0];
+
+  return createMatch(best.t1, best.t2, ratings?.positionRatings);
+};
+
+export const MATCHMAKING_STRATEGIES: Record<MatchmakingStrategyId, MatchmakingStrategy> = {
+  variety: varietyStrategy,
+  random: randomStrategy,
+  balanced: balancedStrategy,
+  newOpponents: newOpponentsStrategy,
+};
+
+// The strategy picked in the tournament settings
+export const getMatchmakingStrategy = (settings: TournamentSettings): MatchmakingStrategy =>
+  MATCHMAKING_STRATEGIES[settings.matchmaking] ?? varietyStrategy;
+
+// Generate a queue of matches with the tournament's strategy to equalise games played.
+// With several tables, matches are assigned to tables without double-booking a player.
+export const generateMatchQueue = (
+  players: PlayerView[],
+  matches: Match[],
+  settings: TournamentSettings,
+  ratings: MatchmakingRatings = {}
+): Match[] => {
+  const strategy = getMatchmakingStrategy(settings);
+  const queue: Match[] = [];
+
+  // Create deep copies to simulate progression without affecting current state
+  let virtualPlayers = players.map(p => ({ ...p }));
+  const virtualMatches = matches.map(m => ({ ...m }));
+
+  // 1. Determine Target
+  // We want to raise the floor (min games played) to the next level.
+  // If everyone is equal (variance 0), target = current + 1.
+  // If unequal, target = max(current).
+  const availablePlayers = virtualPlayers.filter(p => p.isAvailable);
+  if (availablePlayers.length < (settings.isSingles ? 2 : 4)) return [];
+
+  const counts = availablePlayers.map(p => p.gamesPlayed);
+  const minGames = Math.min(...counts);
+  const maxGames = Math.max(...counts);
+  const targetGames = minGames === maxGames ? maxGames + 1 : maxGames;
+
+  // Safety Limit
+  const MAX_ADDED_MATCHES = 20;
+
+  for (let i = 0; i < MAX_ADDED_MATCHES; i++) {
+    const currentMin = Math.min(...virtualPlayers.filter(p => p.isAvailable).map(p => p.gamesPlayed));
+    if (currentMin >= targetGames) break;
+
+    const nextMatch = strategy(virtualPlayers, virtualMatches, settings, ratings);
+    if (!nextMatch) break;
+
+    // Add to queue
+    queue.push(nextMatch);
+    virtualMatches.push(nextMatch);
+
+    // Update virtual player stats for the next iteration, including positions
+    // so the role bias logic keeps working in simulation
+    const { team1, team2 } = nextMatch;
+    const participantIds = [team1.attackerId, team1.defenderId, team2.attackerId, team2.defenderId];
+
+    virtualPlayers = virtualPlayers.map(p => {
+      if (!participantIds.includes(p.id)) return p;
+      return {
+        ...p,
+        gamesPlayed: p.gamesPlayed + 1,
+        attackPlayed: (p.id === team1.attackerId || p.id === team2.attackerId) ? p.attackPlayed + 1 : p.attackPlayed,
+        defensePlayed: (p.id === team1.defenderId || p.id === team2.defenderId) ? p.defensePlayed + 1 : p.defensePlayed,
+      };
+    });
+  }
+
+  return assignTables(queue, matches, settings.tableCount);
+};
@@ -0,0 +1,58 @@
+import { Match, PlayerView } from '../types';
+import { isSinglesTeam } from './tournamentLogic';
+
+// The editable queue: scheduled matches outside a knockout bracket, in play order
+export const isQueuedMatch = (match: Match): boolean => match.status === 'scheduled' && !match.bracket;
+
+// Check a match before it goes into the queue: every position filled, nobody
+// in it twice, and only available players from the roster.
+// Returns what is wrong, or null when the match is fine.
+export const validateMatch = (match: Match, players: PlayerView[], isSingles = false): string | null => {
+  const { team1, team2 } = match;
+  const slots = [team1.attackerId, team1.defenderId, team2.attackerId, team2.defenderId];
+  if (slots.some(id => !id)) return 'Pick a player for every position.';
+
+  if (isSingles && !(isSinglesTeam(team1) && isSinglesTeam(team2))) return 'Singles matches have one player a side.';
+  const ids = isSingles ? [team1.attackerId, team2.attackerId] : slots;
+  if (new Set(ids).size !== ids.length) return 'A player can only appear once in a match.';
+
+  for (const id of ids) {
+    const player = players.find(p => p.id === id);
+    if (!player) return 'Every player must be on the tournament roster.';
+    if (!player.isAvailable) return `${player.nickname} is not available.`;
+  }
+
+  return null;
+};
+
+// Move a queued match to a new position in the queue. Other matches keep their places.
+export const moveQueuedMatch = (matches: Match[], matchId: string, toIndex: number): Match[] => {
+  const queue = matches.filter(isQueuedMatch);
+  const fromIndex = queue.findIndex(m => m.id === matchId);
+  if (fromIndex === -1) return matches;
+
+  const [moved] = queue.splice(fromIndex, 1);
+  queue.splice(Math.max(0, Math.min(toIndex, queue.length)), 0, moved);
+
+  let next = 0;
+  return matches.map(m => isQueuedMatch(m) ? queue[next++] : m);
+};
+
+// A match put back in the queue unplayed: score, result, timing and goal log cleared
+export const requeueMatch = (match: Match): Match => ({
+  ...match,
+  status: 'scheduled',
+  team1: { ...match.team1, score: 0 },
+  team2: { ...match.team2, score: 0 },
+  winner: undefined,
+  startedAt: undefined,
+  endedAt: undefined,
+  durationMs: undefined,
+  timeExpired: undefined,
+  games: undefined,
+  gameStartedAt: undefined,
+  sidesSwitched: undefined,
+  goals: undefined,
+  scoreHistory: undefined,
+  historyIndex: undefined,
+});
@@ -0,0 +1,272 @@
+import { GlobalPlayer, Match, RatingHistoryEntry, Team, TournamentData, TournamentSettings, MatchmakingRatings } from '../types';
+import { getTeamPlayerIds, isSinglesTeam } from './tournamentLogic';
+
+// ============================================
+// Elo
+// ============================================
+
+export const DEFAULT_RATING = 1000;
+export const RATING_K_FACTOR = 32;
+
+// Chance that a side rated ratingA beats a side rated ratingB
+export const getExpectedScore = (ratingA: number, ratingB: number): number =>
+  1 / (1 + 10 ** ((ratingB - ratingA) / 400));
+
+// Bigger wins move ratings further: a 10-9 counts once, a 10-0 twice
+export const getMarginMultiplier = (winnerScore: number, loserScore: number): number =>
+  1 + Math.log10(Math.max(1, winnerScore - loserScore));
+
+const getAverageRating = (ids: string[], ratings: Record<string, number>): number =>
+  ids.reduce((sum, id) => sum + (ratings[id] ?? DEFAULT_RATING), 0) / ids.length;
+
+// A side's rating is the average of its players (a singles side is just the one player)
+const getSideRating = (team: Team, ratings: Record<string, number>): number =>
+  getAverageRating(getTeamPlayerIds(team), ratings);
+
+// Predicted chance that the first group of players beats the second
+export const getWinProbability = (team1Ids: string[], team2Ids: string[], ratings: Record<string, number>): number =>
+  getExpectedScore(getAverageRating(team1Ids, ratings), getAverageRating(team2Ids, ratings));
+
+// Points the winners gain (and the losers give up)
+const getEloDelta = (winnerRating: number, loserRating: number, winnerScore: number, loserScore: number): number =>
+  Math.round(RATING_K_FACTOR * getMarginMultiplier(winnerScore, loserScore) * (1 - getExpectedScore(winnerRating, loserRating)));
+
+// Rating change for every player in a completed match.
+// Both players on a side move by the same amount.
+export const getRatingChanges = (match: Match, ratings: Record<string, number>): Record<string, number> => {
+  if (match.status !== 'completed' || !match.winner) return {};
+
+  const winningTeam = match[match.winner];
+  const losingTeam = match[match.winner === 'team1' ? 'team2' : 'team1'];
+  const delta = getEloDelta(getSideRating(winningTeam, ratings), getSideRating(losingTeam, ratings), winningTeam.score, losingTeam.score);
+
+  const changes: Record<string, number> = {};
+  getTeamPlayerIds(winningTeam).forEach(id => { changes[id] = delta; });
+  getTeamPlayerIds(losingTeam).forEach(id => { changes[id] = -delta; });
+  return changes;
+};
+
+// Elo rating by player
+export const getRatings = (players: GlobalPlayer[]): Record<string, number> => {
+  const ratings: Record<string, number> = {};
+  players.forEach(p => { ratings[p.id] = p.rating; });
+  return ratings;
+};
+
+// Apply a completed match to the players' ratings and record the change
+export const applyMatchRating = (players: GlobalPlayer[], match: Match, tournamentId: string): GlobalPlayer[] => {
+  const changes = getRatingChanges(match, getRatings(players));
+
+  return players.map(p => {
+    const delta = changes[p.id];
+    if (delta === undefined) return p;
+
+    const rating = p.rating + delta;
+    return {
+      ...p,
+      rating,
+      ratingHistory: [...p.ratingHistory, { matchId: match.id, tournamentId, timestamp: match.timestamp, rating, delta }],
+    };
+  });
+};
+
+// ============================================
+// Position ratings
+// ============================================
+
+// Attack and defense ratings by player, for role assignment
+export const getPositionRatings = (players: GlobalPlayer[]): Record<string, { attack: number, defense: number }> => {
+  const ratings: Record<string, { attack: number, defense: number }> = {};
+  players.forEach(p => { ratings[p.id] = { attack: p.attackRating, defense: p.defenseRating }; });
+  return ratings;
+};
+
+// The ratings match generation should use under these settings
+export const getMatchmakingRatings = (players: GlobalPlayer[], settings: TournamentSettings): MatchmakingRatings => ({
+  ratings: settings.matchmaking === 'balanced' ? getRatings(players) : undefined,
+  positionRatings: settings.isPositionMode && settings.preferStrongerPosition && !settings.isSingles
+    ? getPositionRatings(players)
+    : undefined,
+});
+
+// Doubles only: a side is rated as its attacker's attack plus its defender's defense
+// (averaged), and each player only moves the rating for the position they played
+export const applyMatchPositionRatings = (players: GlobalPlayer[], match: Match): GlobalPlayer[] => {
+  if (match.status !== 'completed' || !match.winner) return players;
+  if (isSinglesTeam(match.team1) || isSinglesTeam(match.team2)) return players;
+
+  const getPlayer = (id: string) => players.find(p => p.id === id);
+  const winningTeam = match[match.winner];
+  const losingTeam = match[match.winner === 'team1' ? 'team2' : 'team1'];
+  const getSideStrength = (team: Team) =>
+    ((getPlayer(team.attackerId)?.attackRating ?? DEFAULT_RATING) + (getPlayer(team.defenderId)?.defenseRating ?? DEFAULT_RATING)) / 2;
+
+  const delta = getEloDelta(getSideStrength(winningTeam), getSideStrength(losingTeam), winningTeam.score, losingTeam.score);
+
+  return players.map(p => {
+    const sign = p.id === winningTeam.attackerId || p.id === winningTeam.defenderId ? 1
+      : p.id === losingTeam.attackerId || p.id === losingTeam.defenderId ? -1
+      : 0;
+    if (sign === 0) return p;
+
+    const isAttacker = p.id === winningTeam.attackerId || p.id === losingTeam.attackerId;
+    return isAttacker
+      ? { ...p, attackRating: p.attackRating + sign * delta }
+      : { ...p, defenseRating: p.defenseRating + sign * delta };
+  });
+};
+
+// ============================================
+// Skill (TrueSkill-style)
+// ============================================
+
+// Every player starts at mu 25 with sigma 25/3, so a conservative skill of 0
+export const DEFAULT_SKILL_MU = 25;
+export const DEFAULT_SKILL_SIGMA = DEFAULT_SKILL_MU / 3;
+const SKILL_BETA = DEFAULT_SKILL_SIGMA / 2;    // Performance noise within a single match
+const SKILL_TAU = DEFAULT_SKILL_SIGMA / 100;   // Uncertainty added back before each match so skill can drift
+
+// Skill we are fairly sure a player has (mean minus three standard deviations)
+export const getConservativeSkill = (player: { skillMu: number, skillSigma: number }): number =>
+  player.skillMu - 3 * player.skillSigma;
+
+const normalPdf = (x: number): number => Math.exp(-x * x / 2) / Math.sqrt(2 * Math.PI);
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26 approximation of erf)
+const normalCdf = (x: number): number => {
+  const z = Math.abs(x) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * z);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-z * z);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+// Update mu/sigma for every player in a completed match. A side's skill is the
+// sum of its players; the shift for a result is split between partners in
+// proportion to their uncertainty, so the player we know least about moves most.
+export const applyMatchSkill = (players: GlobalPlayer[], match: Match): GlobalPlayer[] => {
+  if (match.status !== 'completed' || !match.winner) return players;
+
+  const getPlayer = (id: string) => players.find(p => p.id === id);
+  const winnerIds = getTeamPlayerIds(match[match.winner]);
+  const loserIds = getTeamPlayerIds(match[match.winner === 'team1' ? 'team2' : 'team1']);
+  const allIds = [...winnerIds, ...loserIds];
+  if (allIds.some(id => !getPlayer(id))) return players;
+
+  const variance: Record<string, number> = {};
+  allIds.forEach(id => { variance[id] = getPlayer(id)!.skillSigma ** 2 + SKILL_TAU ** 2; });
+
+  const sumMu = (ids: string[]) => ids.reduce((sum, id) => sum + getPlayer(id)!.skillMu, 0);
+  const c = Math.sqrt(allIds.reduce((sum, id) => sum + variance[id], 0) + allIds.length * SKILL_BETA ** 2);
+  const t = (sumMu(winnerIds) - sumMu(loserIds)) / c;
+  // Guard the tail so a huge upset doesn't divide by (almost) zero
+  const v = normalPdf(t) / Math.max(normalCdf(t), 1e-10);
+  const w = v * (v + t);
+
+  return players.map(p => {
+    if (!allIds.includes(p.id)) return p;
+    const sign = winnerIds.includes(p.id) ? 1 : -1;
+    const pVariance = variance[p.id];
+    return {
+      ...p,
+      skillMu: p.skillMu + sign * (pVariance / c) * v,
+      skillSigma: Math.sqrt(pVariance * Math.max(1 - (pVariance / (c * c)) * w, 1e-4)),
+    };
+  });
+};
+
+// Keep each player's skill and position ratings after the match on its history entry
+const recordRatingSnapshot = (players: GlobalPlayer[], match: Match): GlobalPlayer[] =>
+  players.map(p => {
+    const entry = p.ratingHistory[p.ratingHistory.length - 1];
+    if (entry?.matchId !== match.id) return p;
+
+    const { skillMu, skillSigma, attackRating, defenseRating } = p;
+    return { ...p, ratingHistory: [...p.ratingHistory.slice(0, -1), { ...entry, skillMu, skillSigma, attackRating, defenseRating }] };
+  });
+
+// Apply a completed match to every rating: Elo, position ratings and skill.
+// Position ratings only move in position mode; otherwise the slots are just labels.
+export const applyMatchRatings = (players: GlobalPlayer[], match: Match, tournamentId: string, isPositionMode: boolean): GlobalPlayer[] => {
+  const rated = applyMatchRating(players, match, tournamentId);
+  return recordRatingSnapshot(applyMatchSkill(isPositionMode ? applyMatchPositionRatings(rated, match) : rated, match), match);
+};
+
+// Skill and position ratings as kept on each history entry, with where they start
+type SnapshotKey = 'skillMu' | 'skillSigma' | 'attackRating' | 'defenseRating';
+const SNAPSHOT_DEFAULTS: Record<SnapshotKey, number> = {
+  skillMu: DEFAULT_SKILL_MU,
+  skillSigma: DEFAULT_SKILL_SIGMA,
+  attackRating: DEFAULT_RATING,
+  defenseRating: DEFAULT_RATING,
+};
+const SNAPSHOT_KEYS = Object.keys(SNAPSHOT_DEFAULTS) as SnapshotKey[];
+
+// How much one history entry's match moved a skill or position rating
+// (0 when the entries around it were recorded before snapshots were kept)
+const getSnapshotChange = (history: RatingHistoryEntry[], index: number, key: SnapshotKey): number => {
+  const after = history[index][key];
+  const before = index > 0 ? history[index - 1][key] : SNAPSHOT_DEFAULTS[key];
+  return after !== undefined && before !== undefined ? after - before : 0;
+};
+
+// Put a player's ratings back to where they stood before the first of these matches,
+// dropping that match and everything after it from the history
+const rewindRatings = (player: GlobalPlayer, matchIds: Set<string>): GlobalPlayer => {
+  const cut = player.ratingHistory.findIndex(e => matchIds.has(e.matchId));
+  if (cut === -1) return player;
+
+  const kept = player.ratingHistory.slice(0, cut);
+  const before = kept[kept.length - 1];
+
+  // Entries recorded before snapshots were kept leave skill and position ratings as they are
+  const rewound: GlobalPlayer = { ...player, rating: before?.rating ?? DEFAULT_RATING, ratingHistory: kept };
+  SNAPSHOT_KEYS.forEach(key => {
+    rewound[key] = before ? before[key] ?? player[key] : SNAPSHOT_DEFAULTS[key];
+  });
+  return rewound;
+};
+
+// One step of a replay, in the order the matches were played
+type ReplayStep = { timestamp: number, apply: (players: GlobalPlayer[]) => GlobalPlayer[] };
+
+// Rewound history entries for matches that cannot be replayed (their tournament was
+// deleted): each puts back every rating change its match made, in its place in time
+const getCarriedSteps = (player: GlobalPlayer, matchIds: Set<string>): ReplayStep[] => {
+  const history = player.ratingHistory;
+  const cut = history.findIndex(e => matchIds.has(e.matchId));
+  if (cut === -1) return [];
+
+  return history.flatMap((entry, i) => i < cut || matchIds.has(entry.matchId) ? [] : [{
+    timestamp: entry.timestamp,
+    apply: (players: GlobalPlayer[]) => players.map(p => {
+      if (p.id !== player.id) return p;
+
+      const carried: GlobalPlayer = { ...p, rating: p.rating + entry.delta };
+      SNAPSHOT_KEYS.forEach(key => { carried[key] = p[key] + getSnapshotChange(history, i, key); });
+      const { rating, skillMu, skillSigma, attackRating, defenseRating } = carried;
+      return { ...carried, ratingHistory: [...p.ratingHistory, { ...entry, rating, skillMu, skillSigma, attackRating, defenseRating }] };
+    }),
+  }]);
+};
+
+// Ratings after a result was corrected or deleted: rewind everyone to just before that
+// match, then replay it and every later completed match in the saved tournaments, along
+// with the carried changes of deleted tournaments' matches, in the order they were played.
+// Earlier ratings and history are left as they are.
+export const replayRatingsFrom = (players: GlobalPlayer[], tournaments: TournamentData[], changedMatch: Match): GlobalPlayer[] => {
+  const plays = tournaments.flatMap(t => t.matches
+    .filter(m => m.status === 'completed' && m.timestamp >= changedMatch.timestamp)
+    .map(match => ({ match, tournament: t })));
+  const replayedIds = new Set([changedMatch.id, ...plays.map(({ match }) => match.id)]);
+
+  const steps: ReplayStep[] = [
+    ...plays.map(({ match, tournament }) => ({
+      timestamp: match.timestamp,
+      apply: (current: GlobalPlayer[]) =>
+        applyMatchRatings(current, match, tournament.id, tournament.settings?.isPositionMode ?? tournament.isPositionMode),
+    })),
+    ...players.flatMap(p => getCarriedSteps(p, replayedIds)),
+  ].sort((a, b) => a.timestamp - b.timestamp);
+
+  return steps.reduce((current, step) => step.apply(current), players.map(p => rewindRatings(p, replayedIds)));
+};
@@ -0,0 +1,83 @@
+import { GlobalPlayer, Match, PlayerView, TournamentData, TournamentSettings } from '../types';
+import { getMatchPoints, getTeamPlayerIds, isUnicornMatch } from './tournamentLogic';
+import { validateMatch } from './queueService';
+
+// The side the scores say won: most games won in a series, otherwise the higher score
+export const getResultWinner = (match: Match): 'team1' | 'team2' | undefined => {
+  const lead = match.games
+    ? { team1: match.games.filter(g => g.team1 > g.team2).length, team2: match.games.filter(g => g.team2 > g.team1).length }
+    : { team1: match.team1.score, team2: match.team2.score };
+  return lead.team1 > lead.team2 ? 'team1' : lead.team2 > lead.team1 ? 'team2' : undefined;
+};
+
+// Check a corrected result. Players are checked as for the queue, except that
+// anyone on the roster counts, available or not. Returns what is wrong, or null.
+export const validateResult = (match: Match, players: PlayerView[], isSingles = false): string | null => {
+  const playerError = validateMatch(match, players.map(p => ({ ...p, isAvailable: true })), isSingles);
+  if (playerError) return playerError;
+
+  const games = match.games ?? [{ team1: match.team1.score, team2: match.team2.score }];
+  if (games.some(game => [game.team1, game.team2].some(score => !Number.isInteger(score) || score < 0))) {
+    return 'Scores must be whole numbers, 0 or more.';
+  }
+  if (games.some(game => game.team1 === game.team2)) return 'A game cannot end level.';
+
+  const winner = getResultWinner(match);
+  if (!winner) return 'A series cannot end level.';
+  if (match.winner !== winner) return 'The winner must be the side the scores say won.';
+
+  return null;
+};
+
+// Keep the goal log true to a corrected result: new scores void it, and
+// scorers no longer in the match lose their goals' attribution
+export const reconcileGoals = (original: Match, corrected: Match): Match => {
+  if (!corrected.goals) return corrected;
+
+  const scoresChanged = original.team1.score !== corrected.team1.score
+    || original.team2.score !== corrected.team2.score
+    || JSON.stringify(original.games) !== JSON.stringify(corrected.games);
+  if (scoresChanged) return { ...corrected, goals: undefined };
+
+  const playerIds = [...getTeamPlayerIds(corrected.team1), ...getTeamPlayerIds(corrected.team2)];
+  return {
+    ...corrected,
+    goals: corrected.goals.map(goal => goal.scorerId && !playerIds.includes(goal.scorerId)
+      ? { team: goal.team, timestamp: goal.timestamp, game: goal.game }
+      : goal),
+  };
+};
+
+// Add (or, with a sign of -1, take away) completed matches' results to the players' lifetime stats
+export const applyLifetimeStats = (players: GlobalPlayer[], matches: Match[], settings?: TournamentSettings, sign: 1 | -1 = 1): GlobalPlayer[] =>
+  matches.filter(m => m.status === 'completed' && m.winner).reduce((current, match) => {
+    const winner = match.winner!;
+    const loser = winner === 'team1' ? 'team2' : 'team1';
+    const isUnicorn = isUnicornMatch(match, settings);
+
+    return current.map(gp => {
+      const side = getTeamPlayerIds(match[winner]).includes(gp.id) ? winner
+        : getTeamPlayerIds(match[loser]).includes(gp.id) ? loser
+        : null;
+      if (!side) return gp;
+
+      const isWinner = side === winner;
+      const other = side === 'team1' ? 'team2' : 'team1';
+      return {
+        ...gp,
+        lifetimeWins: gp.lifetimeWins + sign * (isWinner ? 1 : 0),
+        lifetimeLosses: gp.lifetimeLosses + sign * (isWinner ? 0 : 1),
+        lifetimeGoalsScored: gp.lifetimeGoalsScored + sign * match[side].score,
+        lifetimeGoalsConceded: gp.lifetimeGoalsConceded + sign * match[other].score,
+        lifetimeGamesPlayed: gp.lifetimeGamesPlayed + sign,
+        lifetimePoints: Math.round((gp.lifetimePoints + sign * getMatchPoints(match, side, settings)) * 10) / 10,
+        lifetimeUnicorns: gp.lifetimeUnicorns + sign * (isWinner && isUnicorn ? 1 : 0),
+      };
+    });
+  }, players);
+
+// Swap a tournament's share of the lifetime stats for its corrected share: the old
+// matches come out under the old settings and the new ones go in. Totals from every
+// other tournament, deleted ones included, are left as they are.
+export const replaceLifetimeStats = (players: GlobalPlayer[], before: TournamentData, after: TournamentData): GlobalPlayer[] =>
+  applyLifetimeStats(applyLifetimeStats(players, before.matches, before.settings, -1), after.matches, after.settings);
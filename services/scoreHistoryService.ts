@@ -0,0 +1,56 @@
+import { GoalEvent, Match, ScoreStep } from '../types';
+
+// Undo/redo for a live match. The steps are kept on the match itself, so they are
+// saved with the tournament and a reload (or an app update) resumes them.
+
+const takeStep = (match: Match): ScoreStep => ({
+  team1: match.team1.score,
+  team2: match.team2.score,
+  goals: match.goals,
+});
+
+// Steps so far, starting from the current score when none have been kept yet
+const getSteps = (match: Match): ScoreStep[] => match.scoreHistory ?? [takeStep(match)];
+
+export const canUndo = (match: Match): boolean => (match.historyIndex ?? 0) > 0;
+
+export const canRedo = (match: Match): boolean => (match.historyIndex ?? 0) < getSteps(match).length - 1;
+
+// Record the updated match's score as the next step, dropping any steps undone before it
+export const recordScoreStep = (previous: Match, updated: Match): Match => {
+  const index = previous.historyIndex ?? 0;
+  return {
+    ...updated,
+    scoreHistory: [...getSteps(previous).slice(0, index + 1), takeStep(updated)],
+    historyIndex: index + 1,
+  };
+};
+
+const goToStep = (match: Match, index: number): Match => {
+  const step = getSteps(match)[index];
+  return {
+    ...match,
+    team1: { ...match.team1, score: step.team1 },
+    team2: { ...match.team2, score: step.team2 },
+    goals: step.goals,
+    historyIndex: index,
+  };
+};
+
+export const undoScore = (match: Match): Match =>
+  canUndo(match) ? goToStep(match, (match.historyIndex ?? 0) - 1) : match;
+
+export const redoScore = (match: Match): Match =>
+  canRedo(match) ? goToStep(match, (match.historyIndex ?? 0) + 1) : match;
+
+// Swap a goal for its updated version in every step, so undo and redo keep the change
+export const replaceGoalInHistory = (match: Match, goal: GoalEvent, updated: GoalEvent): Match => {
+  const isSameGoal = (g: GoalEvent) => g.timestamp === goal.timestamp && g.team === goal.team;
+  return {
+    ...match,
+    scoreHistory: match.scoreHistory?.map(step => ({ ...step, goals: step.goals?.map(g => isSameGoal(g) ? updated : g) })),
+  };
+};
+
+// Start afresh from the current score: a new game, or a match leaving play
+export const clearScoreHistory = (match: Match): Match => ({ ...match, scoreHistory: undefined, historyIndex: undefined });
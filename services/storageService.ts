@@ -1,4 +1,5 @@
 import { GlobalPlayer, TournamentData, TournamentSummary, AppState, DEFAULT_TOURNAMENT_SETTINGS, FoosballExport, NicknameConflict } from '../types';
+import { DEFAULT_RATING, DEFAULT_SKILL_MU, DEFAULT_SKILL_SIGMA } from './ratingService';
 
 // Storage keys
 const KEYS = {
@@ -12,11 +13,22 @@ const KEYS = {
 // Global Players
 // ============================================
 
+// Players saved before ratings existed start at the default rating and skill
+const migrateGlobalPlayer = (player: GlobalPlayer): GlobalPlayer => ({
+  ...player,
+  rating: player.rating ?? DEFAULT_RATING,
+  ratingHistory: player.ratingHistory ?? [],
+  skillMu: player.skillMu ?? DEFAULT_SKILL_MU,
+  skillSigma: player.skillSigma ?? DEFAULT_SKILL_SIGMA,
+  attackRating: player.attackRating ?? DEFAULT_RATING,
+  defenseRating: player.defenseRating ?? DEFAULT_RATING,
+});
+
 export const loadGlobalPlayers = (): GlobalPlayer[] => {
   try {
     const item = localStorage.getItem(KEYS.PLAYERS);
     if (!item) return [];
-    return JSON.parse(item);
+    return JSON.parse(item).map(migrateGlobalPlayer);
   } catch (e) {
     console.error("Failed to load players", e);
     return [];
@@ -62,12 +74,23 @@ export const saveTournamentList = (list: TournamentSummary[]) => {
 
 // Migrate old tournament data to include settings
 const migrateTournamentData = (data: TournamentData): TournamentData => {
+  // Players from before check-in count as present since the tournament began
+  const players = data.players.map(p =>
+    p.isAvailable && p.checkedInAt === undefined && p.presentMs === undefined ? { ...p, checkedInAt: data.createdAt, presentMs: 0 } : p
+  );
+
   if (data.settings) {
-    return data;
+    // Fill in any settings added since the tournament was saved
+    return {
+      ...data,
+      players,
+      settings: { ...DEFAULT_TOURNAMENT_SETTINGS, ...data.settings },
+    };
   }
   // Migrate from old format - use legacy isPositionMode if it exists
   return {
     ...data,
+    players,
     settings: {
       ...DEFAULT_TOURNAMENT_SETTINGS,
       isPositionMode: data.isPositionMode ?? true,
@@ -327,6 +350,8 @@ export const importMerge = (
       continue;
     }
 
+    const mapId = (id: string) => idMappings.get(id) || id;
+
     // Update player references in tournament
     const updatedTournament: TournamentData = {
       ...tournament,
@@ -346,7 +371,24 @@ export const importMerge = (
           attackerId: idMappings.get(m.team2.attackerId) || m.team2.attackerId,
           defenderId: idMappings.get(m.team2.defenderId) || m.team2.defenderId,
         },
+        goals: m.goals?.map(goal => goal.scorerId ? { ...goal, scorerId: mapId(goal.scorerId) } : goal),
+      })),
+      bracket: tournament.bracket && {
+        ...tournament.bracket,
+        seedIds: tournament.bracket.seedIds.map(mapId),
+        championIds: tournament.bracket.championIds?.map(mapId),
+      },
+      fixedTeams: tournament.fixedTeams?.map(team => ({
+        ...team,
+        playerIds: [mapId(team.playerIds[0]), mapId(team.playerIds[1])],
       })),
+      settings: tournament.settings && {
+        ...tournament.settings,
+        pairingRules: tournament.settings.pairingRules?.map(rule => ({
+          ...rule,
+          playerIds: [mapId(rule.playerIds[0]), mapId(rule.playerIds[1])],
+        })),
+      },
     };
 
     saveTournament(updatedTournament);
@@ -0,0 +1,67 @@
+import { Match, PlayerView, TeamView } from '../types';
+import { getMatchPlayerIds } from './tournamentLogic';
+
+// Supported number of tables
+export const MAX_TABLES = 4;
+
+// Table numbers, from 1
+export const getTableNumbers = (tableCount: number): number[] =>
+  Array.from({ length: tableCount }, (_, i) => i + 1);
+
+// Matches being played right now, one per table
+export const getActiveMatches = (matches: Match[]): Match[] => matches.filter(m => m.status === 'active');
+
+// Active match on a table (matches from before multi-table count as table 1)
+export const getTableMatch = (matches: Match[], table: number): Match | undefined =>
+  getActiveMatches(matches).find(m => (m.table ?? 1) === table);
+
+// Tables with no match in progress, lowest first
+export const getFreeTables = (matches: Match[], tableCount: number): number[] =>
+  getTableNumbers(tableCount).filter(table => !getTableMatch(matches, table));
+
+// Players on a table right now
+export const getBusyPlayerIds = (matches: Match[]): Set<string> =>
+  new Set(getActiveMatches(matches).flatMap(getMatchPlayerIds));
+
+// Players on a table can't be booked for another match until theirs is over
+export const markBusyPlayers = (players: PlayerView[], matches: Match[]): PlayerView[] => {
+  const busy = getBusyPlayerIds(matches);
+  return players.map(p => busy.has(p.id) ? { ...p, isAvailable: false } : p);
+};
+
+export const markBusyTeams = (teams: TeamView[], matches: Match[]): TeamView[] => {
+  const busy = getBusyPlayerIds(matches);
+  return teams.map(t => t.playerIds.some(id => busy.has(id)) ? { ...t, isAvailable: false } : t);
+};
+
+// Spread a queue over the tables in waves that can be played at the same time.
+// Each wave takes the earliest queued matches that share no players with each other,
+// one per free table. The first wave also keeps clear of the matches in progress.
+export const assignTables = (queue: Match[], matches: Match[], tableCount: number): Match[] => {
+  if (tableCount <= 1) return queue;
+
+  let remaining = [...queue];
+  const assigned: Match[] = [];
+  let freeTables = getFreeTables(matches, tableCount);
+  let busy = getBusyPlayerIds(matches);
+
+  while (remaining.length > 0) {
+    const waiting: Match[] = [];
+
+    for (const match of remaining) {
+      const ids = getMatchPlayerIds(match);
+      if (freeTables.length === 0 || ids.some(id => busy.has(id))) {
+        waiting.push(match);
+        continue;
+      }
+      ids.forEach(id => busy.add(id));
+      assigned.push({ ...match, table: freeTables.shift() });
+    }
+
+    remaining = waiting;
+    freeTables = getTableNumbers(tableCount);
+    busy = new Set();
+  }
+
+  return assigned;
+};
@@ -0,0 +1,304 @@
+import { PlayerView, Match, Team, FixedTeam, TeamView, TournamentSettings } from '../types';
+import { generateId, assignRoles, isUnicornMatch, getMatchPoints, getSettings, compareByTiebreakers, getLastPlayedAt, getTableHolders } from './tournamentLogic';
+
+// Does a match side consist of exactly this team's players
+export const isTeamSide = (team: FixedTeam, side: Team): boolean =>
+  team.playerIds.includes(side.attackerId) && team.playerIds.includes(side.defenderId);
+
+// Registered team playing on a match side, if any
+export const findFixedTeam = <T extends FixedTeam>(teams: T[], side: Team): T | undefined =>
+  teams.find(team => isTeamSide(team, side));
+
+// Order-independent key for a pair of teams
+const getTeamPairKey = (id1: string, id2: string) => [id1, id2].sort().join('-');
+
+// Build team views with stats derived from the completed matches
+export const getTeamViews = (
+  fixedTeams: FixedTeam[],
+  players: PlayerView[],
+  matches: Match[],
+  settings?: TournamentSettings
+): TeamView[] => {
+  return fixedTeams.map(team => {
+    const view: TeamView = {
+      id: team.id,
+      name: team.name,
+      playerIds: team.playerIds,
+      wins: 0,
+      losses: 0,
+      goalsScored: 0,
+      goalsConceded: 0,
+      gamesPlayed: 0,
+      points: 0,
+      unicorns: 0,
+      isAvailable: team.playerIds.every(id => players.find(p => p.id === id)?.isAvailable),
+    };
+
+    matches.forEach(m => {
+      if (m.status !== 'completed' || !m.winner) return;
+
+      const side = isTeamSide(team, m.team1) ? 'team1' : isTeamSide(team, m.team2) ? 'team2' : null;
+      if (!side) return;
+
+      const own = m[side];
+      const opponent = m[side === 'team1' ? 'team2' : 'team1'];
+      const isWinner = m.winner === side;
+      const isUnicorn = isWinner && isUnicornMatch(m, settings);
+
+      view.gamesPlayed += 1;
+      view.wins += isWinner ? 1 : 0;
+      view.losses += isWinner ? 0 : 1;
+      view.goalsScored += own.score;
+      view.goalsConceded += opponent.score;
+      view.points = Math.round((view.points + getMatchPoints(m, side, settings)) * 10) / 10;
+      view.unicorns += isUnicorn ? 1 : 0;
+    });
+
+    return view;
+  });
+};
+
+// Head-to-head record between teams, keyed winnerId>loserId (see getHeadToHead)
+const getTeamHeadToHead = (teams: FixedTeam[], matches: Match[]): Record<string, number> => {
+  const record: Record<string, number> = {};
+  matches.forEach(m => {
+    if (m.status !== 'completed' || !m.winner) return;
+    const winner = findFixedTeam(teams, m[m.winner]);
+    const loser = findFixedTeam(teams, m[m.winner === 'team1' ? 'team2' : 'team1']);
+    if (!winner || !loser) return;
+    record[`${winner.id}>${loser.id}`] = (record[`${winner.id}>${loser.id}`] || 0) + 1;
+  });
+  return record;
+};
+
+// Buchholz for teams: the summed points of every team faced (see getBuchholzScores)
+export const getTeamBuchholzScores = (teams: TeamView[], matches: Match[]): Record<string, number> => {
+  const scores: Record<string, number> = {};
+  teams.forEach(t => { scores[t.id] = 0; });
+
+  matches.forEach(m => {
+    if (m.status !== 'completed') return;
+    const t1 = findFixedTeam(teams, m.team1);
+    const t2 = findFixedTeam(teams, m.team2);
+    if (!t1 || !t2) return;
+    scores[t1.id] += t2.points;
+    scores[t2.id] += t1.points;
+  });
+
+  return scores;
+};
+
+// Rank teams the same way players are ranked: points, then Buchholz when given
+// (Swiss), then the tournament's tiebreakers
+export const getTeamLeaderboard = (
+  teams: TeamView[],
+  settings?: TournamentSettings,
+  matches: Match[] = [],
+  buchholz?: Record<string, number>
+): TeamView[] => {
+  const { tiebreakers } = getSettings(settings);
+  const headToHead = tiebreakers.includes('headToHead') ? getTeamHeadToHead(teams, matches) : {};
+
+  return [...teams].sort((a, b) => {
+    if (a.points !== b.points) return b.points - a.points;
+    if (buchholz) {
+      const bhDiff = (buchholz[b.id] ?? 0) - (buchholz[a.id] ?? 0);
+      if (bhDiff !== 0) return bhDiff;
+    }
+    return compareByTiebreakers(a, b, tiebreakers, headToHead);
+  });
+};
+
+// How often each pair of teams has met (scheduled matches included)
+const buildTeamMeetings = (teams: FixedTeam[], matches: Match[]): Record<string, number> => {
+  const meetings: Record<string, number> = {};
+
+  matches.forEach(m => {
+    if (m.status !== 'completed' && m.status !== 'scheduled') return;
+    const t1 = findFixedTeam(teams, m.team1);
+    const t2 = findFixedTeam(teams, m.team2);
+    if (!t1 || !t2) return;
+    const key = getTeamPairKey(t1.id, t2.id);
+    meetings[key] = (meetings[key] || 0) + 1;
+  });
+
+  return meetings;
+};
+
+// Build a scheduled match between two teams, assigning roles within each team
+const createTeamMatch = (t1: FixedTeam, t2: FixedTeam, players: PlayerView[]): Match | null => {
+  const getPlayer = (id: string) => players.find(p => p.id === id);
+  const [a1, a2, b1, b2] = [...t1.playerIds, ...t2.playerIds].map(getPlayer);
+  if (!a1 || !a2 || !b1 || !b2) return null;
+
+  return {
+    id: generateId(),
+    status: 'scheduled',
+    timestamp: Date.now(),
+    team1: { ...assignRoles(a1, a2), score: 0 },
+    team2: { ...assignRoles(b1, b2), score: 0 },
+  };
+};
+
+const byGamesPlayed = (a: TeamView, b: TeamView) => {
+  if (a.gamesPlayed !== b.gamesPlayed) return a.gamesPlayed - b.gamesPlayed;
+  return 0.5 - Math.random();
+};
+
+// Pair teams in the given order: each team takes the opponent it has met least,
+// preferring the one closest to it in the order
+const pairInOrder = (ordered: TeamView[], meetings: Record<string, number>): [TeamView, TeamView][] => {
+  const remaining = [...ordered];
+  const pairs: [TeamView, TeamView][] = [];
+
+  while (remaining.length >= 2) {
+    const team = remaining.shift()!;
+    let bestIndex = 0;
+    remaining.forEach((candidate, i) => {
+      const count = meetings[getTeamPairKey(team.id, candidate.id)] || 0;
+      const bestCount = meetings[getTeamPairKey(team.id, remaining[bestIndex].id)] || 0;
+      if (count < bestCount) bestIndex = i;
+    });
+    pairs.push([team, remaining.splice(bestIndex, 1)[0]]);
+  }
+
+  return pairs;
+};
+
+const toMatches = (pairs: [TeamView, TeamView][], players: PlayerView[]): Match[] =>
+  pairs
+    .map(([t1, t2]) => createTeamMatch(t1, t2, players))
+    .filter((m): m is Match => m !== null);
+
+// Generate the next match between the two teams that need to play the most,
+// avoiding a rematch where another opponent is available
+export const generateNextTeamMatch = (teams: TeamView[], players: PlayerView[], matches: Match[]): Match | null => {
+  const available = teams.filter(t => t.isAvailable).sort(byGamesPlayed);
+  if (available.length < 2) return null;
+
+  const meetings = buildTeamMeetings(teams, matches);
+  const [first, ...rest] = available;
+
+  const opponent = [...rest].sort((a, b) => {
+    const meetDiff = (meetings[getTeamPairKey(first.id, a.id)] || 0) - (meetings[getTeamPairKey(first.id, b.id)] || 0);
+    if (meetDiff !== 0) return meetDiff;
+    return a.gamesPlayed - b.gamesPlayed;
+  })[0];
+
+  return createTeamMatch(first, opponent, players);
+};
+
+// Generate a round where every available team plays once.
+// With an odd number of teams, the team with the most games sits out.
+export const generateTeamRound = (teams: TeamView[], players: PlayerView[], matches: Match[]): Match[] => {
+  const available = teams.filter(t => t.isAvailable).sort(byGamesPlayed);
+  if (available.length < 2) return [];
+
+  const playing = available.length % 2 === 0 ? available : available.slice(0, -1);
+  return toMatches(pairInOrder(playing, buildTeamMeetings(teams, matches)), players);
+};
+
+// Swiss round for fixed teams (or singles players): pair down the team standings, avoiding rematches.
+// With an odd number of teams, the lowest-ranked team with the most games sits out.
+export const generateTeamSwissRound = (
+  teams: TeamView[],
+  players: PlayerView[],
+  matches: Match[],
+  round: number,
+  settings?: TournamentSettings
+): Match[] => {
+  const standings = getTeamLeaderboard(teams.filter(t => t.isAvailable), settings, matches, getTeamBuchholzScores(teams, matches));
+  if (standings.length < 2) return [];
+
+  let playing = standings;
+  if (standings.length % 2 === 1) {
+    const mostGames = Math.max(...standings.map(t => t.gamesPlayed));
+    const sitOut = [...standings].reverse().find(t => t.gamesPlayed === mostGames)!;
+    playing = standings.filter(t => t.id !== sitOut.id);
+  }
+
+  return toMatches(pairInOrder(playing, buildTeamMeetings(teams, matches)), players)
+    .map(m => ({ ...m, swissRound: round }));
+};
+
+// Round robin for fixed teams (or singles players): every available team meets every other team once.
+// Fixtures are ordered so the teams that have played least go next.
+export const generateTeamRoundRobinFixtures = (teams: TeamView[], players: PlayerView[]): Match[] => {
+  const available = teams.filter(t => t.isAvailable);
+  if (available.length < 2) return [];
+
+  const load: Record<string, number> = {};
+  available.forEach(t => { load[t.id] = 0; });
+
+  let unplayed: [TeamView, TeamView][] = [];
+  available.forEach((t1, i) => {
+    available.slice(i + 1).forEach(t2 => unplayed.push([t1, t2]));
+  });
+
+  // Track simulated positions so roles alternate across the fixture list
+  let virtualPlayers = players.map(p => ({ ...p }));
+  const fixtures: Match[] = [];
+
+  while (unplayed.length > 0) {
+    unplayed.sort((a, b) => {
+      const diff = (load[a[0].id] + load[a[1].id]) - (load[b[0].id] + load[b[1].id]);
+      if (diff !== 0) return diff;
+      return 0.5 - Math.random();
+    });
+
+    const [t1, t2] = unplayed.shift()!;
+    const match = createTeamMatch(t1, t2, virtualPlayers);
+    if (!match) continue;
+
+    fixtures.push(match);
+    load[t1.id] += 1;
+    load[t2.id] += 1;
+
+    const attackers = [match.team1.attackerId, match.team2.attackerId];
+    const defenders = [match.team1.defenderId, match.team2.defenderId];
+    virtualPlayers = virtualPlayers.map(p => ({
+      ...p,
+      attackPlayed: attackers.includes(p.id) ? p.attackPlayed + 1 : p.attackPlayed,
+      defensePlayed: defenders.includes(p.id) ? p.defensePlayed + 1 : p.defensePlayed,
+    }));
+  }
+
+  return fixtures;
+};
+
+// Winner stays on with fixed teams: the team holding the table, if it is still available
+export const getHoldingTeam = (teams: TeamView[], players: PlayerView[], matches: Match[]): TeamView | null => {
+  const holders = getTableHolders(players, matches);
+  return (holders && teams.find(t => t.isAvailable && isTeamSide(t, holders))) || null;
+};
+
+// Teams waiting for the table, longest-waiting first
+export const getTeamChallengerQueue = (teams: TeamView[], players: PlayerView[], matches: Match[]): TeamView[] => {
+  const holding = getHoldingTeam(teams, players, matches);
+  const lastPlayed = getLastPlayedAt(matches);
+
+  return teams
+    .filter(t => t.isAvailable && t.id !== holding?.id)
+    .sort((a, b) => {
+      const waitDiff = (lastPlayed[a.playerIds[0]] ?? 0) - (lastPlayed[b.playerIds[0]] ?? 0);
+      if (waitDiff !== 0) return waitDiff;
+      return a.gamesPlayed - b.gamesPlayed;
+    });
+};
+
+// The holding team stays on in its positions; the next team in the queue challenges it
+export const generateTeamKingMatch = (teams: TeamView[], players: PlayerView[], matches: Match[]): Match | null => {
+  const holding = getHoldingTeam(teams, players, matches);
+  const queue = getTeamChallengerQueue(teams, players, matches);
+
+  if (!holding) return queue.length >= 2 ? createTeamMatch(queue[0], queue[1], players) : null;
+  if (queue.length === 0) return null;
+
+  const match = createTeamMatch(holding, queue[0], players);
+  const holders = getTableHolders(players, matches)!;
+  return match && { ...match, team1: { attackerId: holders.attackerId, defenderId: holders.defenderId, score: 0 } };
+};
+
+// Singles: every player is a team of one, so the team schedulers can pair players
+export const getSinglesTeams = (players: PlayerView[]): FixedTeam[] =>
+  players.map(p => ({ id: p.id, name: p.nickname, playerIds: [p.id, p.id] }));
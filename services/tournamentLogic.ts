@@ -1,8 +1,8 @@
-import { PlayerView, Match, Team, TournamentSettings, DEFAULT_TOURNAMENT_SETTINGS } from '../types';
+import { PlayerView, TournamentPlayer, Match, Team, GameScore, TournamentSettings, TournamentData, MatchmakingRatings, PairingRule, Tiebreaker, DEFAULT_TOURNAMENT_SETTINGS } from '../types';
+import { getWinProbability } from './ratingService';
 
 // Default constants (used as fallbacks)
 export const WINNING_SCORE = 10;
-export const POINTS_WIN = 1;
 export const POINTS_UNICORN_BONUS = 1;
 
 // Helper to get settings with defaults
@@ -15,6 +15,105 @@ export const getWinningScore = (settings?: TournamentSettings): number => {
   return getSettings(settings).winningScore;
 };
 
+// Winner under the tournament's scoring rule: first to the winning score by the
+// win-by margin, or first to the score cap. Once a timed match's clock has run out
+// the side ahead wins, and a tie is decided by the next goal (golden goal).
+// Undefined while the match is still on.
+export const getMatchWinner = (match: Pick<Match, 'team1' | 'team2' | 'timeExpired'>, settings?: TournamentSettings): 'team1' | 'team2' | undefined => {
+  const { winningScore, winBy, scoreCap } = getSettings(settings);
+  if (match.timeExpired && match.team1.score !== match.team2.score) {
+    return match.team1.score > match.team2.score ? 'team1' : 'team2';
+  }
+
+  const hasWon = (own: number, other: number) =>
+    own >= winningScore && (own - other >= winBy || (scoreCap !== null && own >= scoreCap));
+
+  if (hasWon(match.team1.score, match.team2.score)) return 'team1';
+  if (hasWon(match.team2.score, match.team1.score)) return 'team2';
+  return undefined;
+};
+
+// Deuce: with a win-by margin, both sides within a goal of the winning score and nobody through yet.
+// 'deuce' when level, otherwise the side with the advantage; null outside deuce.
+export const getDeuceState = (match: Pick<Match, 'team1' | 'team2' | 'timeExpired'>, settings?: TournamentSettings): 'deuce' | 'team1' | 'team2' | null => {
+  const { winningScore, winBy } = getSettings(settings);
+  if (winBy < 2 || match.timeExpired || getMatchWinner(match, settings)) return null;
+
+  const score1 = match.team1.score;
+  const score2 = match.team2.score;
+  if (Math.min(score1, score2) < winningScore - 1) return null;
+  return score1 === score2 ? 'deuce' : score1 > score2 ? 'team1' : 'team2';
+};
+
+// Timed matches: time left on the clock in ms, or null for an untimed (or unstarted) match.
+// In a series the clock restarts with every game.
+export const getTimeRemainingMs = (match: Match, settings?: TournamentSettings, now = Date.now()): number | null => {
+  const { matchMinutes } = getSettings(settings);
+  const startedAt = match.gameStartedAt ?? match.startedAt;
+  if (matchMinutes === null || !startedAt) return null;
+  return Math.max(0, startedAt + matchMinutes * 60 * 1000 - now);
+};
+
+// Golden goal: the clock has run out with the scores level
+export const isGoldenGoal = (match: Match): boolean =>
+  !!match.timeExpired && match.team1.score === match.team2.score;
+
+// Best-of-N series: games in this match, 1 when the series scope leaves it out
+export const getBestOf = (match: Pick<Match, 'bracket'>, settings?: TournamentSettings): number => {
+  const { bestOf, seriesScope } = getSettings(settings);
+  if (seriesScope === 'knockout' && !match.bracket) return 1;
+  if (seriesScope === 'final' && (!match.bracket || match.bracket.nextMatchId)) return 1;
+  return bestOf;
+};
+
+// Games needed to win a best-of-N series
+export const getGamesToWin = (bestOf: number): number => Math.floor(bestOf / 2) + 1;
+
+// Games each side has won in a series. While the match is on, the game in
+// progress counts once it is decided.
+export const getSeriesScore = (match: Match, settings?: TournamentSettings): GameScore => {
+  const wins = { team1: 0, team2: 0 };
+  (match.games ?? []).forEach(game => { wins[game.team1 > game.team2 ? 'team1' : 'team2']++; });
+  const liveWinner = match.status !== 'completed' ? getMatchWinner(match, settings) : undefined;
+  if (liveWinner) wins[liveWinner]++;
+  return wins;
+};
+
+// Series winner: the first side to win a majority of the games (a single game
+// for a best of 1). Undefined while the series is still on.
+export const getSeriesWinner = (match: Match, settings?: TournamentSettings): 'team1' | 'team2' | undefined => {
+  const gamesToWin = getGamesToWin(getBestOf(match, settings));
+  const wins = getSeriesScore(match, settings);
+  if (wins.team1 >= gamesToWin) return 'team1';
+  if (wins.team2 >= gamesToWin) return 'team2';
+  return undefined;
+};
+
+// Close the game in progress and start the next one at 0-0, changing ends if the settings say so
+export const startNextGame = (match: Match, settings?: TournamentSettings, now = Date.now()): Match => ({
+  ...match,
+  games: [...(match.games ?? []), { team1: match.team1.score, team2: match.team2.score }],
+  team1: { ...match.team1, score: 0 },
+  team2: { ...match.team2, score: 0 },
+  timeExpired: undefined,
+  gameStartedAt: now,
+  sidesSwitched: getSettings(settings).switchSides ? !match.sidesSwitched : match.sidesSwitched,
+});
+
+// A series in play as it will be saved: the game in progress joins the games,
+// and the team scores become the goals over the whole series, so goals scored
+// and conceded count every game. A single game is returned as it is.
+export const withSeriesTotals = (match: Match): Match => {
+  if (!match.games?.length) return match;
+  const games = [...match.games, { team1: match.team1.score, team2: match.team2.score }];
+  return {
+    ...match,
+    games,
+    team1: { ...match.team1, score: games.reduce((sum, game) => sum + game.team1, 0) },
+    team2: { ...match.team2, score: games.reduce((sum, game) => sum + game.team2, 0) },
+  };
+};
+
 // Get unicorn bonus from settings
 export const getUnicornBonus = (settings?: TournamentSettings): number => {
   return getSettings(settings).unicornBonus;
@@ -40,28 +139,126 @@ export const createPlayerView = (nickname: string, photoUrl: string | null): Pla
   unicorns: 0
 });
 
-// Calculate Leaderboard
-export const getLeaderboard = (players: PlayerView[]): PlayerView[] => {
+// Singles: a one-player side stores the player as both attacker and defender
+export const isSinglesTeam = (team: Team): boolean => team.attackerId === team.defenderId;
+
+// The distinct players on a side (one in singles, two in doubles)
+export const getTeamPlayerIds = (team: Team): string[] =>
+  isSinglesTeam(team) ? [team.attackerId] : [team.attackerId, team.defenderId];
+
+// Every player in a match
+export const getMatchPlayerIds = (match: Match): string[] =>
+  [...getTeamPlayerIds(match.team1), ...getTeamPlayerIds(match.team2)];
+
+// Head-to-head record: how often one player beat another, keyed winnerId>loserId
+export const getHeadToHead = (matches: Match[]): Record<string, number> => {
+  const record: Record<string, number> = {};
+  matches.forEach(m => {
+    if (m.status !== 'completed' || !m.winner) return;
+    const winners = getTeamPlayerIds(m[m.winner]);
+    const losers = getTeamPlayerIds(m[m.winner === 'team1' ? 'team2' : 'team1']);
+    winners.forEach(w => losers.forEach(l => {
+      record[`${w}>${l}`] = (record[`${w}>${l}`] || 0) + 1;
+    }));
+  });
+  return record;
+};
+
+// Compare two entries level on points by the tiebreakers in order (negative when a ranks higher).
+// Head-to-head compares the two directly, so it is only decisive between a pair.
+export const compareByTiebreakers = (
+  a: { id: string, wins: number, goalsScored: number, goalsConceded: number },
+  b: { id: string, wins: number, goalsScored: number, goalsConceded: number },
+  tiebreakers: Tiebreaker[],
+  headToHead: Record<string, number> = {}
+): number => {
+  for (const tiebreaker of tiebreakers) {
+    const diff =
+      tiebreaker === 'wins' ? b.wins - a.wins
+      : tiebreaker === 'goalDifference' ? (b.goalsScored - b.goalsConceded) - (a.goalsScored - a.goalsConceded)
+      : tiebreaker === 'goalsScored' ? b.goalsScored - a.goalsScored
+      : (headToHead[`${b.id}>${a.id}`] || 0) - (headToHead[`${a.id}>${b.id}`] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+};
+
+// Calculate Leaderboard: points, then the tournament's tiebreakers.
+// Optional Buchholz scores (see getBuchholzScores) break ties on points first.
+// Pass the matches when the tiebreakers include head-to-head.
+export const getLeaderboard = (
+  players: PlayerView[],
+  buchholz?: Record<string, number>,
+  settings?: TournamentSettings,
+  matches: Match[] = []
+): PlayerView[] => {
+  const { tiebreakers } = getSettings(settings);
+  const headToHead = tiebreakers.includes('headToHead') ? getHeadToHead(matches) : {};
+
   return [...players].sort((a, b) => {
     // Primary: Total Points
     if (a.points !== b.points) return b.points - a.points;
 
-    // Tie-breaker 1: Win Count
-    if (a.wins !== b.wins) return b.wins - a.wins;
+    // Swiss: strength of opposition
+    if (buchholz) {
+      const bhDiff = (buchholz[b.id] ?? 0) - (buchholz[a.id] ?? 0);
+      if (bhDiff !== 0) return bhDiff;
+    }
 
-    // Tie-breaker 2: Goal Difference
-    const diffA = a.goalsScored - a.goalsConceded;
-    const diffB = b.goalsScored - b.goalsConceded;
-    return diffB - diffA;
+    return compareByTiebreakers(a, b, tiebreakers, headToHead);
   });
 };
 
-// Check if a match is a unicorn (10-0 shutout ONLY - regardless of winning score setting)
-export const isUnicornMatch = (match: Match, _settings?: TournamentSettings): boolean => {
-  // Unicorn is ONLY a 10-0 shutout, regardless of tournament target score
-  const t1 = match.team1;
-  const t2 = match.team2;
-  return (t1.score === 10 && t2.score === 0) || (t2.score === 10 && t1.score === 0);
+// Points per game played (0 before a first game)
+export const getPointsPerGame = (player: PlayerView): number =>
+  player.gamesPlayed > 0 ? player.points / player.gamesPlayed : 0;
+
+// Leaderboard by points per game, so players who arrived late or left early
+// are ranked on how they played rather than how much. Ties go to more games played.
+export const getPointsPerGameLeaderboard = (players: PlayerView[]): PlayerView[] =>
+  [...players].sort((a, b) => {
+    const ppgDiff = getPointsPerGame(b) - getPointsPerGame(a);
+    if (ppgDiff !== 0) return ppgDiff;
+    if (a.gamesPlayed !== b.gamesPlayed) return b.gamesPlayed - a.gamesPlayed;
+    return (b.goalsScored - b.goalsConceded) - (a.goalsScored - a.goalsConceded);
+  });
+
+// The one definition of a unicorn: a shutout win with at least the tournament's
+// minimum unicorn score (10-0 by default). Works on live scores as well as results.
+export const isUnicornMatch = (match: Match, settings?: TournamentSettings): boolean => {
+  const minScore = Math.max(1, getSettings(settings).unicornMinScore);
+  const { team1, team2 } = match;
+  return (team1.score >= minScore && team2.score === 0) || (team2.score >= minScore && team1.score === 0);
+};
+
+// Can a match still become a unicorn: the target score is enough for one and a side has yet to score
+export const isUnicornPossible = (match: Match, settings?: TournamentSettings): boolean =>
+  isUnicornReachable(settings) && (match.team1.score === 0 || match.team2.score === 0);
+
+// Does the target score allow a unicorn at all
+export const isUnicornReachable = (settings?: TournamentSettings): boolean => {
+  const { winningScore, unicornMinScore } = getSettings(settings);
+  return winningScore >= unicornMinScore;
+};
+
+// Short description of the unicorn rule, e.g. "10-0" or "N-0" for any shutout
+export const getUnicornLabel = (settings?: TournamentSettings): string => {
+  const { unicornMinScore } = getSettings(settings);
+  return unicornMinScore <= 1 ? 'N-0' : `${unicornMinScore}-0`;
+};
+
+// Points are kept to one decimal, so fractional goal-margin points add up cleanly
+const roundPoints = (points: number) => Math.round(points * 10) / 10;
+
+// Points each player on a side earns from a completed match: the win or loss points,
+// the winner's goal-margin points and the unicorn bonus
+export const getMatchPoints = (match: Match, side: 'team1' | 'team2', settings?: TournamentSettings): number => {
+  const { pointsWin, pointsLoss, pointsPerGoalMargin } = getSettings(settings);
+  if (match.winner !== side) return pointsLoss;
+
+  const margin = Math.abs(match.team1.score - match.team2.score);
+  const unicornBonus = isUnicornMatch(match, settings) ? getUnicornBonus(settings) : 0;
+  return roundPoints(pointsWin + margin * pointsPerGoalMargin + unicornBonus);
 };
 
 // Update stats after a match
@@ -73,37 +270,23 @@ export const updatePlayerStats = (players: PlayerView[], match: Match, settings?
 
   // Check for Unicorn (N-0 shutout)
   const isUnicorn = isUnicornMatch(match, settings);
-  const unicornBonusPoints = getUnicornBonus(settings);
 
   return players.map(p => {
-    let team: Team | null = null;
-    let oppTeam: Team | null = null;
-    let isWinner = false;
-
-    if (t1.attackerId === p.id || t1.defenderId === p.id) {
-      team = t1;
-      oppTeam = t2;
-      isWinner = match.winner === 'team1';
-    } else if (t2.attackerId === p.id || t2.defenderId === p.id) {
-      team = t2;
-      oppTeam = t1;
-      isWinner = match.winner === 'team2';
-    }
+    let side: 'team1' | 'team2' | null = null;
+    if (t1.attackerId === p.id || t1.defenderId === p.id) side = 'team1';
+    else if (t2.attackerId === p.id || t2.defenderId === p.id) side = 'team2';
 
-    if (team && oppTeam) {
-      const isAttacker = team.attackerId === p.id;
+    if (side) {
+      const team = match[side];
+      const oppTeam = match[side === 'team1' ? 'team2' : 'team1'];
+      const isWinner = match.winner === side;
 
-      // Calculate Points
-      let matchPoints = 0;
-      let unicornEarned = 0;
+      // Positions don't apply to singles
+      const isSingles = isSinglesTeam(team);
+      const isAttacker = team.attackerId === p.id;
 
-      if (isWinner) {
-        matchPoints += POINTS_WIN;
-        if (isUnicorn) {
-          matchPoints += unicornBonusPoints;
-          unicornEarned = 1;
-        }
-      }
+      const matchPoints = getMatchPoints(match, side, settings);
+      const unicornEarned = isWinner && isUnicorn ? 1 : 0;
 
       return {
         ...p,
@@ -112,9 +295,9 @@ export const updatePlayerStats = (players: PlayerView[], match: Match, settings?
         losses: isWinner ? p.losses : p.losses + 1,
         goalsScored: p.goalsScored + team.score,
         goalsConceded: p.goalsConceded + oppTeam.score,
-        attackPlayed: isAttacker ? p.attackPlayed + 1 : p.attackPlayed,
-        defensePlayed: !isAttacker ? p.defensePlayed + 1 : p.defensePlayed,
-        points: p.points + matchPoints,
+        attackPlayed: isAttacker && !isSingles ? p.attackPlayed + 1 : p.attackPlayed,
+        defensePlayed: !isAttacker && !isSingles ? p.defensePlayed + 1 : p.defensePlayed,
+        points: roundPoints(p.points + matchPoints),
         unicorns: p.unicorns + unicornEarned
       };
     }
@@ -122,146 +305,567 @@ export const updatePlayerStats = (players: PlayerView[], match: Match, settings?
   });
 };
 
-// Generate the next match
-export const generateNextMatch = (players: PlayerView[], matches: Match[]): Match | null => {
-  // Filter for available players only
-  const availablePlayers = players.filter(p => p.isAvailable);
-
-  if (availablePlayers.length < 4) return null;
-
-  // 1. Sort available players by games played (ascending) to ensure fair rotation.
-  const sortedPlayers = [...availablePlayers].sort((a, b) => {
-    if (a.gamesPlayed !== b.gamesPlayed) return a.gamesPlayed - b.gamesPlayed;
-    return 0.5 - Math.random();
+// Rebuild tournament stats from scratch by replaying every completed match, so a
+// corrected or deleted result leaves nothing of the old one behind
+export const recomputePlayerStats = (players: TournamentPlayer[], matches: Match[], settings?: TournamentSettings): TournamentPlayer[] => {
+  const cleared: PlayerView[] = players.map(tp => ({
+    id: tp.globalPlayerId,
+    nickname: '',
+    photoUrl: null,
+    isAvailable: tp.isAvailable,
+    wins: 0,
+    losses: 0,
+    goalsScored: 0,
+    goalsConceded: 0,
+    gamesPlayed: 0,
+    attackPlayed: 0,
+    defensePlayed: 0,
+    points: 0,
+    unicorns: 0,
+  }));
+  const replayed = matches.reduce((current, match) => updatePlayerStats(current, match, settings), cleared);
+
+  return players.map((tp, i) => {
+    const { wins, losses, goalsScored, goalsConceded, gamesPlayed, attackPlayed, defensePlayed, points, unicorns } = replayed[i];
+    return { ...tp, wins, losses, goalsScored, goalsConceded, gamesPlayed, attackPlayed, defensePlayed, points, unicorns };
   });
+};
 
-  // Pick the 4 players who need to play the most
-  const participants = sortedPlayers.slice(0, 4);
+// Assign Roles (Attack vs Defense) based on history.
+// With position ratings, each pair is first split so the side's combined
+// position rating is highest; history only decides when that is a tie.
+export const assignRoles = (
+  p1: PlayerView,
+  p2: PlayerView,
+  positionRatings?: Record<string, { attack: number, defense: number }>
+): { attackerId: string, defenderId: string } => {
+  const r1 = positionRatings?.[p1.id];
+  const r2 = positionRatings?.[p2.id];
+  if (r1 && r2) {
+    const p1Attacks = r1.attack + r2.defense;
+    const p2Attacks = r2.attack + r1.defense;
+    if (p1Attacks > p2Attacks) return { attackerId: p1.id, defenderId: p2.id };
+    if (p2Attacks > p1Attacks) return { attackerId: p2.id, defenderId: p1.id };
+  }
+
+  // Calculate "Attack Bias" = AttackGames - DefenseGames
+  const bias1 = (p1.attackPlayed || 0) - (p1.defensePlayed || 0);
+  const bias2 = (p2.attackPlayed || 0) - (p2.defensePlayed || 0);
+
+  // We want the person with the higher bias to Defend.
+  if (bias1 > bias2) {
+    return { attackerId: p2.id, defenderId: p1.id };
+  } else if (bias2 > bias1) {
+    return { attackerId: p1.id, defenderId: p2.id };
+  } else {
+    // Random if equal bias
+    return Math.random() > 0.5 
+      ? { attackerId: p1.id, defenderId: p2.id }
+      : { attackerId: p2.id, defenderId: p1.id };
+  }
+};
 
-  // 2. Build a history of who has been teammates
-  const teammateHistory: Record<string, number> = {};
-  const getPairKey = (id1: string, id2: string) => [id1, id2].sort().join('-');
+// Order-independent key for a pair of players
+export const getPairKey = (id1: string, id2: string) => [id1, id2].sort().join('-');
+
+// Order-independent key for an exact matchup: the same two sides, whichever way round
+export const getMatchupKey = (team1Ids: string[], team2Ids: string[]) =>
+  [[...team1Ids].sort().join('-'), [...team2Ids].sort().join('-')].sort().join('|');
+
+// How often each pair of players has been teammates, how often they have faced each other,
+// and how often each exact matchup has been played.
+// Scheduled matches count too, so a queue being built does not repeat itself.
+export const buildPairingHistory = (matches: Match[]): {
+  teammates: Record<string, number>,
+  opponents: Record<string, number>,
+  matchups: Record<string, number>
+} => {
+  const teammates: Record<string, number> = {};
+  const opponents: Record<string, number> = {};
+  const matchups: Record<string, number> = {};
 
   matches.forEach(m => {
     if (m.status === 'completed' || m.status === 'scheduled') {
-      const t1Key = getPairKey(m.team1.attackerId, m.team1.defenderId);
-      const t2Key = getPairKey(m.team2.attackerId, m.team2.defenderId);
-      teammateHistory[t1Key] = (teammateHistory[t1Key] || 0) + 1;
-      teammateHistory[t2Key] = (teammateHistory[t2Key] || 0) + 1;
+      [m.team1, m.team2].forEach(team => {
+        if (isSinglesTeam(team)) return;
+        const key = getPairKey(team.attackerId, team.defenderId);
+        teammates[key] = (teammates[key] || 0) + 1;
+      });
+
+      getTeamPlayerIds(m.team1).forEach(id1 => {
+        getTeamPlayerIds(m.team2).forEach(id2 => {
+          const key = getPairKey(id1, id2);
+          opponents[key] = (opponents[key] || 0) + 1;
+        });
+      });
+
+      const matchupKey = getMatchupKey(getTeamPlayerIds(m.team1), getTeamPlayerIds(m.team2));
+      matchups[matchupKey] = (matchups[matchupKey] || 0) + 1;
     }
   });
 
-  // 3. Generate all 3 possible ways to split these 4 participants into 2 teams
-  const possibleCombinations = [
-    { t1: [participants[0], participants[1]], t2: [participants[2], participants[3]] },
-    { t1: [participants[0], participants[2]], t2: [participants[1], participants[3]] },
-    { t1: [participants[0], participants[3]], t2: [participants[1], participants[2]] }
-  ];
-
-  const scoredCombinations = possibleCombinations.map(combo => {
-    const t1Key = getPairKey(combo.t1[0].id, combo.t1[1].id);
-    const t2Key = getPairKey(combo.t2[0].id, combo.t2[1].id);
-    const cost = (teammateHistory[t1Key] || 0) + (teammateHistory[t2Key] || 0);
-    return { ...combo, cost };
-  });
+  return { teammates, opponents, matchups };
+};
 
-  scoredCombinations.sort((a, b) => {
-    if (a.cost !== b.cost) return a.cost - b.cost;
-    return 0.5 - Math.random();
+// How many times the players of one side have already faced the players of the other
+export const getOpponentRepeats = (t1: PlayerView[], t2: PlayerView[], opponents: Record<string, number>): number =>
+  t1.reduce((sum, a) => sum + t2.reduce((s, b) => s + (opponents[getPairKey(a.id, b.id)] || 0), 0), 0);
+
+// How well mixed a session was: the share of teammate and opponent pairings
+// in completed matches that were not repeats (0-100), or null before any match
+export const getVarietyScore = (matches: Match[]): number | null => {
+  const completed = matches.filter(m => m.status === 'completed');
+  if (completed.length === 0) return null;
+
+  const { teammates, opponents } = buildPairingHistory(completed);
+  const counts = [...Object.values(teammates), ...Object.values(opponents)];
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  return Math.round((counts.length / total) * 100);
+};
+
+// Split costs are counted in repeat partnerships. A repeat opponent pair costs half
+// of one, replaying the exact same matchup two more.
+const OPPONENT_REPEAT_WEIGHT = 0.5;
+const MATCHUP_REPEAT_WEIGHT = 2;
+
+// A broken pairing rule outweighs any amount of repeats or imbalance,
+// so rules are only broken when no split keeps them
+const RULE_VIOLATION_WEIGHT = 1000;
+
+// Balanced matchmaking: how much a lopsided split weighs against repeat teammates.
+// A 75/25 split costs as much as two repeat partnerships.
+const BALANCE_WEIGHT = 4;
+
+// Available players who need a game most: fewest games played first, ties in random order
+export const getPlayersByNeed = (players: PlayerView[]): PlayerView[] =>
+  players
+    .filter(p => p.isAvailable)
+    .sort((a, b) => {
+      if (a.gamesPlayed !== b.gamesPlayed) return a.gamesPlayed - b.gamesPlayed;
+      return 0.5 - Math.random();
+    });
+
+// Pairing rules a split breaks: an always-pair split across the sides, or a never-pair on one side
+export const getBrokenPairingRules = (team1Ids: string[], team2Ids: string[], rules: PairingRule[]): PairingRule[] =>
+  rules.filter(({ type, playerIds: [a, b] }) => {
+    const sameTeam = [team1Ids, team2Ids].some(ids => ids.includes(a) && ids.includes(b));
+    if (type === 'never') return sameTeam;
+    const bothPlaying = [...team1Ids, ...team2Ids].filter(id => id === a || id === b).length === 2;
+    return bothPlaying && !sameTeam;
   });
 
-  const bestOption = scoredCombinations[0];
+export const getMatchBrokenPairingRules = (match: Match, rules: PairingRule[]): PairingRule[] =>
+  getBrokenPairingRules(getTeamPlayerIds(match.team1), getTeamPlayerIds(match.team2), rules);
 
-  // 4. Assign Roles (Attack vs Defense) based on history
-  const assignRoles = (p1: PlayerView, p2: PlayerView): { attackerId: string, defenderId: string } => {
-    // Calculate "Attack Bias" = AttackGames - DefenseGames
-    const bias1 = (p1.attackPlayed || 0) - (p1.defensePlayed || 0);
-    const bias2 = (p2.attackPlayed || 0) - (p2.defensePlayed || 0);
+// "Alex & Sam always pair" for toasts and the options list
+export const describePairingRule = (rule: PairingRule, players: PlayerView[]): string => {
+  const [a, b] = rule.playerIds.map(id => players.find(p => p.id === id)?.nickname ?? 'Unknown');
+  return `${a} & ${b} ${rule.type === 'always' ? 'always' : 'never'} pair`;
+};
 
-    // We want the person with the higher bias to Defend.
-    if (bias1 > bias2) {
-      return { attackerId: p2.id, defenderId: p1.id };
-    } else if (bias2 > bias1) {
-      return { attackerId: p1.id, defenderId: p2.id };
-    } else {
-      // Random if equal bias
-      return Math.random() > 0.5 
-        ? { attackerId: p1.id, defenderId: p2.id }
-        : { attackerId: p2.id, defenderId: p1.id };
-    }
-  };
+// Pick the 4 players for a doubles match in order of need, bringing an
+// always-pair partner along with the player who needs the game.
+// A pair that no longer fits is passed over for the next player.
+export const pickParticipants = (sortedPlayers: PlayerView[], rules: PairingRule[] = []): PlayerView[] => {
+  const picked: PlayerView[] = [];
+
+  for (const player of sortedPlayers) {
+    if (picked.length === 4) break;
+    if (picked.includes(player)) continue;
+
+    const partner = rules
+      .filter(r => r.type === 'always' && r.playerIds.includes(player.id))
+      .map(r => sortedPlayers.find(p => p.id !== player.id && r.playerIds.includes(p.id)))
+      .find(p => p && !picked.includes(p));
+
+    if (!partner) picked.push(player);
+    else if (picked.length <= 2) picked.push(player, partner);
+  }
+
+  // Too few players left to honour the pairs: fill up in order of need
+  return picked.length === 4 ? picked : sortedPlayers.slice(0, 4);
+};
 
-  const team1Roles = assignRoles(bestOption.t1[0], bestOption.t1[1]);
-  const team2Roles = assignRoles(bestOption.t2[0], bestOption.t2[1]);
+// The 3 possible ways to split 4 players into 2 teams
+export const getPossibleSplits = (participants: PlayerView[]): { t1: PlayerView[], t2: PlayerView[] }[] => [
+  { t1: [participants[0], participants[1]], t2: [participants[2], participants[3]] },
+  { t1: [participants[0], participants[2]], t2: [participants[1], participants[3]] },
+  { t1: [participants[0], participants[3]], t2: [participants[1], participants[2]] }
+];
+
+// Build a scheduled match from each side's players: one each in singles,
+// two each in doubles (roles assigned by history or position ratings)
+export const createMatch = (
+  t1: PlayerView[],
+  t2: PlayerView[],
+  positionRatings?: Record<string, { attack: number, defense: number }>
+): Match => {
+  const toTeam = (side: PlayerView[]): Team => side.length === 1
+    ? { attackerId: side[0].id, defenderId: side[0].id, score: 0 }
+    : { ...assignRoles(side[0], side[1], positionRatings), score: 0 };
 
   return {
     id: generateId(),
     status: 'scheduled',
     timestamp: Date.now(),
-    team1: { ...team1Roles, score: 0 },
-    team2: { ...team2Roles, score: 0 }
+    team1: toTeam(t1),
+    team2: toTeam(t2)
   };
 };
 
-// Generate a queue of matches to equalise games played
-export const generateMatchQueue = (players: PlayerView[], matches: Match[]): Match[] => {
-  const queue: Match[] = [];
-  
-  // Create deep copies to simulate progression without affecting current state
-  let virtualPlayers = players.map(p => ({ ...p }));
-  let virtualMatches = matches.map(m => ({ ...m }));
+// Cheapest option, ties broken at random
+const pickCheapest = <T>(options: T[], getCost: (option: T) => number): T =>
+  options
+    .map(option => ({ option, cost: getCost(option) }))
+    .sort((a, b) => {
+      if (a.cost !== b.cost) return a.cost - b.cost;
+      return 0.5 - Math.random();
+    })[0].option;
+
+// Generate the next match (1v1 when isSingles is set).
+// Pass Elo ratings to prefer evenly matched teams, and position ratings
+// to put players in their stronger position. Doubles keep to the pairing
+// rules where any split allows it.
+export const generateNextMatch = (
+  players: PlayerView[],
+  matches: Match[],
+  isSingles = false,
+  { ratings, positionRatings }: MatchmakingRatings = {},
+  pairingRules: PairingRule[] = []
+): Match | null => {
+  // Sort available players by games played (ascending) to ensure fair rotation
+  const sortedPlayers = getPlayersByNeed(players);
+  if (sortedPlayers.length < (isSingles ? 2 : 4)) return null;
+
+  const { teammates, opponents, matchups } = buildPairingHistory(matches);
+
+  // 0 for an even match, BALANCE_WEIGHT for a certain result (only when balancing)
+  const getBalanceCost = (t1: PlayerView[], t2: PlayerView[]) => ratings
+    ? BALANCE_WEIGHT * Math.abs(getWinProbability(t1.map(p => p.id), t2.map(p => p.id), ratings) - 0.5) * 2
+    : 0;
+
+  if (isSingles) {
+    // Singles: the player who needs a game most faces the least-played opponent they have met least
+    const [first, ...rest] = sortedPlayers;
+    const leastPlayed = rest.filter(p => p.gamesPlayed === rest[0].gamesPlayed);
+    const opponent = pickCheapest(leastPlayed, p => (opponents[getPairKey(first.id, p.id)] || 0) + getBalanceCost([first], [p]));
+    return createMatch([first], [opponent]);
+  }
 
-  // 1. Determine Target
-  // We want to raise the floor (min games played) to the next level.
-  // If everyone is equal (variance 0), target = current + 1.
-  // If unequal, target = max(current).
-  const availablePlayers = virtualPlayers.filter(p => p.isAvailable);
-  if (availablePlayers.length < 4) return [];
+  // Pick the 4 players who need to play the most, and split them for the fewest
+  // broken rules, then repeat teammates, opponents and matchups (and the closest odds when balancing)
+  const participants = pickParticipants(sortedPlayers, pairingRules);
+  const best = pickCheapest(getPossibleSplits(participants), ({ t1, t2 }) =>
+    RULE_VIOLATION_WEIGHT * getBrokenPairingRules(t1.map(p => p.id), t2.map(p => p.id), pairingRules).length +
+    (teammates[getPairKey(t1[0].id, t1[1].id)] || 0) +
+    (teammates[getPairKey(t2[0].id, t2[1].id)] || 0) +
+    OPPONENT_REPEAT_WEIGHT * getOpponentRepeats(t1, t2, opponents) +
+    MATCHUP_REPEAT_WEIGHT * (matchups[getMatchupKey(t1.map(p => p.id), t2.map(p => p.id))] || 0) +
+    getBalanceCost(t1, t2)
+  );
+
+  return createMatch(best.t1, best.t2, positionRatings);
+};
+
+// Generate a complete rotating-partner fixture list for a round robin.
+// Every available player partners every other player at least once where the
+// roster allows it; leftover partnerships are matched against repeat pairs.
+export const generateRoundRobinFixtures = (players: PlayerView[]): Match[] => {
+  let virtualPlayers = players.filter(p => p.isAvailable).map(p => ({ ...p, gamesPlayed: 0 }));
+  if (virtualPlayers.length < 4) return [];
+
+  const getGames = (id: string) => virtualPlayers.find(p => p.id === id)?.gamesPlayed ?? 0;
+  const pairLoad = (pair: string[]) => getGames(pair[0]) + getGames(pair[1]);
+
+  // 1. Every partnership that still needs to be played
+  let unplayedPairs: string[][] = [];
+  virtualPlayers.forEach((p1, i) => {
+    virtualPlayers.slice(i + 1).forEach(p2 => unplayedPairs.push([p1.id, p2.id]));
+  });
 
-  const counts = availablePlayers.map(p => p.gamesPlayed);
-  const minGames = Math.min(...counts);
-  const maxGames = Math.max(...counts);
-  
-  let targetGames = maxGames;
-  if (minGames === maxGames) {
-      targetGames = maxGames + 1;
+  const fixtures: Match[] = [];
+
+  while (unplayedPairs.length > 0) {
+    // 2. Lead with the partnership whose players have played the least so far
+    unplayedPairs.sort((a, b) => {
+      const loadDiff = pairLoad(a) - pairLoad(b);
+      if (loadDiff !== 0) return loadDiff;
+      return 0.5 - Math.random();
+    });
+
+    const firstPair = unplayedPairs[0];
+    const isDisjoint = (pair: string[]) => !pair.some(id => firstPair.includes(id));
+
+    // 3. Face it with the least-loaded unplayed partnership of four distinct players,
+    //    or fall back to the two least-busy remaining players as a repeat pairing
+    let secondPair = unplayedPairs.slice(1).find(isDisjoint);
+    if (!secondPair) {
+      const others = virtualPlayers
+        .filter(p => !firstPair.includes(p.id))
+        .sort((a, b) => {
+          if (a.gamesPlayed !== b.gamesPlayed) return a.gamesPlayed - b.gamesPlayed;
+          return 0.5 - Math.random();
+        });
+      secondPair = [others[0].id, others[1].id];
+    }
+
+    const usedKeys = [getPairKey(firstPair[0], firstPair[1]), getPairKey(secondPair[0], secondPair[1])];
+    unplayedPairs = unplayedPairs.filter(pair => !usedKeys.includes(getPairKey(pair[0], pair[1])));
+
+    // 4. Assign roles using the simulated position history
+    const getVirtual = (id: string) => virtualPlayers.find(p => p.id === id)!;
+    const team1Roles = assignRoles(getVirtual(firstPair[0]), getVirtual(firstPair[1]));
+    const team2Roles = assignRoles(getVirtual(secondPair[0]), getVirtual(secondPair[1]));
+
+    fixtures.push({
+      id: generateId(),
+      status: 'scheduled',
+      timestamp: Date.now(),
+      team1: { ...team1Roles, score: 0 },
+      team2: { ...team2Roles, score: 0 },
+    });
+
+    virtualPlayers = virtualPlayers.map(p => {
+      const isAttacker = p.id === team1Roles.attackerId || p.id === team2Roles.attackerId;
+      const isDefender = p.id === team1Roles.defenderId || p.id === team2Roles.defenderId;
+      if (!isAttacker && !isDefender) return p;
+      return {
+        ...p,
+        gamesPlayed: p.gamesPlayed + 1,
+        attackPlayed: isAttacker ? p.attackPlayed + 1 : p.attackPlayed,
+        defensePlayed: isDefender ? p.defensePlayed + 1 : p.defensePlayed,
+      };
+    });
   }
-  
-  // Safety Limit
-  const MAX_ADDED_MATCHES = 20; 
-  
-  for (let i = 0; i < MAX_ADDED_MATCHES; i++) {
-      const currentMin = Math.min(...virtualPlayers.filter(p => p.isAvailable).map(p => p.gamesPlayed));
-      if (currentMin >= targetGames) break;
-
-      const nextMatch = generateNextMatch(virtualPlayers, virtualMatches);
-      if (!nextMatch) break;
-
-      // Add to queue
-      queue.push(nextMatch);
-      virtualMatches.push(nextMatch);
-
-      // Update virtual player stats (gamesPlayed) for the next iteration
-      const participantIds = [
-          nextMatch.team1.attackerId, 
-          nextMatch.team1.defenderId, 
-          nextMatch.team2.attackerId, 
-          nextMatch.team2.defenderId
-      ];
-
-      virtualPlayers = virtualPlayers.map(p => {
-          if (participantIds.includes(p.id)) {
-              return { 
-                  ...p, 
-                  gamesPlayed: p.gamesPlayed + 1,
-                  // Also update position stats roughly for the bias logic to keep working in simulation
-                  attackPlayed: (p.id === nextMatch.team1.attackerId || p.id === nextMatch.team2.attackerId) ? p.attackPlayed + 1 : p.attackPlayed,
-                  defensePlayed: (p.id === nextMatch.team1.defenderId || p.id === nextMatch.team2.defenderId) ? p.defensePlayed + 1 : p.defensePlayed,
-              };
-          }
-          return p;
+
+  return fixtures;
+};
+
+// Progress through the round robin fixture list (null when there is no list)
+export const getFixtureProgress = (tournament: TournamentData): { played: number, total: number } | null => {
+  if (!tournament.fixtureIds || tournament.fixtureIds.length === 0) return null;
+
+  const played = tournament.fixtureIds.filter(id =>
+    tournament.matches.some(m => m.id === id && m.status === 'completed')
+  ).length;
+
+  return { played, total: tournament.fixtureIds.length };
+};
+
+// Buchholz tiebreaker: the summed points of everyone a player has faced.
+// In doubles each match counts the average of the two opponents, so the
+// score stays on the same scale as a player's own points.
+export const getBuchholzScores = (players: PlayerView[], matches: Match[]): Record<string, number> => {
+  const pointsById: Record<string, number> = {};
+  players.forEach(p => { pointsById[p.id] = p.points; });
+
+  const scores: Record<string, number> = {};
+  players.forEach(p => { scores[p.id] = 0; });
+
+  matches.forEach(m => {
+    if (m.status !== 'completed') return;
+    const addOpposition = (team: Team, opponents: Team) => {
+      const opposition = ((pointsById[opponents.attackerId] ?? 0) + (pointsById[opponents.defenderId] ?? 0)) / 2;
+      getTeamPlayerIds(team).forEach(id => {
+        if (id in scores) scores[id] += opposition;
       });
+    };
+    addOpposition(m.team1, m.team2);
+    addOpposition(m.team2, m.team1);
+  });
+
+  return scores;
+};
+
+// Number of the next Swiss round (rounds are numbered from 1)
+export const getNextSwissRound = (matches: Match[]): number =>
+  Math.max(0, ...matches.map(m => m.swissRound ?? 0)) + 1;
+
+// Generate a Swiss round: every available player gets one match against
+// opponents on similar points. Players are taken top-down by points; each
+// leader is grouped with the three nearby players that give the fewest repeat
+// teammates and opponents, and the group is split the same way. When the
+// roster does not divide by four, the players with the most games sit out.
+// Pass the settings so the standings use the tournament's tiebreakers.
+export const generateSwissRound = (players: PlayerView[], matches: Match[], settings?: TournamentSettings): Match[] => {
+  const availablePlayers = players.filter(p => p.isAvailable);
+  if (availablePlayers.length < 4) return [];
+
+  const round = getNextSwissRound(matches);
+  const { teammates, opponents } = buildPairingHistory(matches);
+  const buchholz = getBuchholzScores(players, matches);
+
+  // 1. Decide who sits out this round
+  const sitOutCount = availablePlayers.length % 4;
+  const byGames = [...availablePlayers].sort((a, b) => {
+    if (a.gamesPlayed !== b.gamesPlayed) return b.gamesPlayed - a.gamesPlayed;
+    return 0.5 - Math.random();
+  });
+  const sittingOut = new Set(byGames.slice(0, sitOutCount).map(p => p.id));
+
+  // 2. Standings order for this round
+  let remaining = getLeaderboard(availablePlayers.filter(p => !sittingOut.has(p.id)), buchholz, settings, matches);
+
+  const splitCost = (t1: PlayerView[], t2: PlayerView[]) =>
+    (teammates[getPairKey(t1[0].id, t1[1].id)] || 0) +
+    (teammates[getPairKey(t2[0].id, t2[1].id)] || 0) +
+    getOpponentRepeats(t1, t2, opponents);
+
+  // How far down the standings to look for each group
+  const SEARCH_WINDOW = 7;
+  const roundMatches: Match[] = [];
+
+  while (remaining.length >= 4) {
+    const leader = remaining[0];
+    const candidates = remaining.slice(1, 1 + SEARCH_WINDOW);
+
+    let best: { t1: PlayerView[], t2: PlayerView[], cost: number } | null = null;
+
+    // 3. Try every group of three nearby players and every split of the four
+    for (let i = 0; i < candidates.length; i++) {
+      for (let j = i + 1; j < candidates.length; j++) {
+        for (let k = j + 1; k < candidates.length; k++) {
+          const [a, b, c] = [candidates[i], candidates[j], candidates[k]];
+          // Points gap to the leader keeps groups close in the standings
+          const spread = [a, b, c].reduce((sum, p) => sum + Math.abs(leader.points - p.points), 0);
+          const splits = [
+            { t1: [leader, a], t2: [b, c] },
+            { t1: [leader, b], t2: [a, c] },
+            { t1: [leader, c], t2: [a, b] },
+          ];
+          for (const split of splits) {
+            // Repeats weigh more than a point of spread
+            const cost = splitCost(split.t1, split.t2) * 2 + spread;
+            if (!best || cost < best.cost || (cost === best.cost && Math.random() < 0.5)) {
+              best = { ...split, cost };
+            }
+          }
+        }
+      }
+    }
+
+    const { t1, t2 } = best!;
+    const team1Roles = assignRoles(t1[0], t1[1]);
+    const team2Roles = assignRoles(t2[0], t2[1]);
+
+    roundMatches.push({
+      id: generateId(),
+      status: 'scheduled',
+      timestamp: Date.now(),
+      team1: { ...team1Roles, score: 0 },
+      team2: { ...team2Roles, score: 0 },
+      swissRound: round,
+    });
+
+    const usedIds = [...t1, ...t2].map(p => p.id);
+    remaining = remaining.filter(p => !usedIds.includes(p.id));
   }
 
-  return queue;
-};
\ No newline at end of file
+  return roundMatches;
+};
+
+// King of the table: completed matches in the order they finished (knockout matches aside)
+const getTablePlays = (matches: Match[]): Match[] =>
+  matches
+    .filter(m => m.status === 'completed' && m.winner && !m.bracket)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+// When each player last finished a match
+export const getLastPlayedAt = (matches: Match[]): Record<string, number> => {
+  const lastPlayed: Record<string, number> = {};
+  getTablePlays(matches).forEach(m => {
+    [...getTeamPlayerIds(m.team1), ...getTeamPlayerIds(m.team2)].forEach(id => {
+      lastPlayed[id] = m.timestamp;
+    });
+  });
+  return lastPlayed;
+};
+
+// The side holding the table: the winners of the last match, as long as they
+// are all still available and the side fits the match type
+export const getTableHolders = (players: PlayerView[], matches: Match[], isSingles = false): Team | null => {
+  const plays = getTablePlays(matches);
+  const last = plays[plays.length - 1];
+  if (!last) return null;
+
+  const holders = last[last.winner!];
+  if (isSinglesTeam(holders) !== isSingles) return null;
+
+  const isAvailable = (id: string) => !!players.find(p => p.id === id)?.isAvailable;
+  return getTeamPlayerIds(holders).every(isAvailable) ? holders : null;
+};
+
+// Challenger queue: available players off the table, longest-waiting first
+// (players who have not played yet go first, fewest games breaking ties)
+export const getChallengerQueue = (players: PlayerView[], matches: Match[], isSingles = false): PlayerView[] => {
+  const holders = getTableHolders(players, matches, isSingles);
+  const holderIds = holders ? getTeamPlayerIds(holders) : [];
+  const lastPlayed = getLastPlayedAt(matches);
+
+  return players
+    .filter(p => p.isAvailable && !holderIds.includes(p.id))
+    .sort((a, b) => {
+      const waitDiff = (lastPlayed[a.id] ?? 0) - (lastPlayed[b.id] ?? 0);
+      if (waitDiff !== 0) return waitDiff;
+      return a.gamesPlayed - b.gamesPlayed;
+    });
+};
+
+// Winner stays on: the holders keep their positions and the front of the
+// challenger queue takes them on. With nobody holding the table, both
+// sides come from the queue.
+export const generateKingMatch = (players: PlayerView[], matches: Match[], isSingles = false): Match | null => {
+  const holders = getTableHolders(players, matches, isSingles);
+  const queue = getChallengerQueue(players, matches, isSingles);
+  const sideSize = isSingles ? 1 : 2;
+  const needed = holders ? sideSize : sideSize * 2;
+  if (queue.length < needed) return null;
+
+  const createSide = (side: PlayerView[]) => isSingles
+    ? { attackerId: side[0].id, defenderId: side[0].id }
+    : assignRoles(side[0], side[1]);
+
+  const team1 = holders
+    ? { attackerId: holders.attackerId, defenderId: holders.defenderId }
+    : createSide(queue.slice(0, sideSize));
+  const team2 = createSide(queue.slice(needed - sideSize, needed));
+
+  return {
+    id: generateId(),
+    status: 'scheduled',
+    timestamp: Date.now(),
+    team1: { ...team1, score: 0 },
+    team2: { ...team2, score: 0 },
+  };
+};
+
+// Reigns at the table: runs of consecutive wins by the same side
+const getReigns = (matches: Match[]): { playerIds: string[], wins: number }[] => {
+  const reigns: { playerIds: string[], wins: number }[] = [];
+  const getSideKey = (ids: string[]) => [...ids].sort().join('-');
+
+  getTablePlays(matches).forEach(m => {
+    const winnerIds = getTeamPlayerIds(m[m.winner!]);
+    const current = reigns[reigns.length - 1];
+    if (current && getSideKey(current.playerIds) === getSideKey(winnerIds)) {
+      current.wins += 1;
+    } else {
+      reigns.push({ playerIds: winnerIds, wins: 1 });
+    }
+  });
+
+  return reigns;
+};
+
+// Longest reign so far (the earliest one wins a tie)
+export const getLongestReign = (matches: Match[]): { playerIds: string[], wins: number } | null =>
+  getReigns(matches).reduce<{ playerIds: string[], wins: number } | null>(
+    (longest, reign) => !longest || reign.wins > longest.wins ? reign : longest,
+    null
+  );
+
+// The reign of whoever won the last match
+export const getCurrentReign = (matches: Match[]): { playerIds: string[], wins: number } | null => {
+  const reigns = getReigns(matches);
+  return reigns[reigns.length - 1] ?? null;
+};
@@ -12,6 +12,30 @@ export interface GlobalPlayer {
   lifetimeGamesPlayed: number;
   lifetimePoints: number;
   lifetimeUnicorns: number;
+  // Elo rating (see ratingService)
+  rating: number;
+  ratingHistory: RatingHistoryEntry[];
+  // Bayesian skill estimate, TrueSkill-style: mean and uncertainty (see ratingService)
+  skillMu: number;
+  skillSigma: number;
+  // Elo ratings per position, only moved by matches played in that position
+  attackRating: number;
+  defenseRating: number;
+}
+
+// One rating change, kept so ratings can be charted and recomputed
+export interface RatingHistoryEntry {
+  matchId: string;
+  tournamentId: string;
+  timestamp: number;
+  rating: number;          // Rating after the match
+  delta: number;
+  // Skill and position ratings after the match, so ratings can be rewound to it
+  // (missing on entries recorded before they were kept)
+  skillMu?: number;
+  skillSigma?: number;
+  attackRating?: number;
+  defenseRating?: number;
 }
 
 // Tournament-specific player stats (linked by globalPlayerId)
@@ -27,6 +51,10 @@ export interface TournamentPlayer {
   points: number;
   unicorns: number;
   isAvailable: boolean;
+  // Check-in: when the current stretch of availability began (unset while away),
+  // and the time present in earlier stretches
+  checkedInAt?: number;
+  presentMs?: number;
 }
 
 // Combined view for components (GlobalPlayer info + TournamentPlayer stats)
@@ -44,6 +72,30 @@ export interface PlayerView {
   points: number;
   unicorns: number;
   isAvailable: boolean;
+  checkedInAt?: number;
+  presentMs?: number;
+}
+
+// A registered pair that stays together for the whole tournament (fixed-teams mode)
+export interface FixedTeam {
+  id: string;
+  name: string;
+  playerIds: [string, string]; // globalPlayerIds
+}
+
+// Combined view of a fixed team with its tournament stats (derived from matches)
+export interface TeamView {
+  id: string;              // FixedTeam id
+  name: string;
+  playerIds: [string, string];
+  wins: number;
+  losses: number;
+  goalsScored: number;
+  goalsConceded: number;
+  gamesPlayed: number;
+  points: number;
+  unicorns: number;
+  isAvailable: boolean;    // Both players available
 }
 
 export interface Team {
@@ -52,6 +104,20 @@ export interface Team {
   score: number;
 }
 
+// Which part of a knockout bracket a match belongs to
+export type BracketSide = 'winners' | 'losers' | 'grandFinal';
+
+// Position of a match within a knockout bracket
+export interface MatchBracketInfo {
+  side: BracketSide;
+  round: number;              // 0 = first round (grand final: 1 = reset match)
+  position: number;           // Index of the match within its round
+  nextMatchId?: string;       // Winner advances to this match (none for the final)
+  nextSlot?: 'team1' | 'team2';
+  loserNextMatchId?: string;  // Double elimination: loser drops to this losers' bracket match
+  loserNextSlot?: 'team1' | 'team2';
+}
+
 export interface Match {
   id: string;
   team1: Team;
@@ -59,6 +125,49 @@ export interface Match {
   status: 'scheduled' | 'active' | 'completed';
   timestamp: number;
   winner?: 'team1' | 'team2';
+  bracket?: MatchBracketInfo;
+  swissRound?: number;        // Swiss format: round this match belongs to (from 1)
+  table?: number;             // Table the match is (or is queued to be) played on, from 1
+  isPinned?: boolean;         // Queued match that stays when the queue is cleared
+  startedAt?: number;         // When play began
+  endedAt?: number;           // When the result was saved
+  durationMs?: number;        // Time from start to result
+  timeExpired?: boolean;      // Timed match: the clock ran out (a tie goes to golden goal)
+  games?: GameScore[];        // Best-of-N series: games played before the one in progress. Once completed,
+                              // every game, with the team scores holding the goals over the series
+  gameStartedAt?: number;     // Series: when the game in progress began (for the clock)
+  sidesSwitched?: boolean;    // Series: the teams have changed ends, so Blue plays on the right
+  goals?: GoalEvent[];        // Every goal in the order scored, with the scorer where recorded
+  scoreHistory?: ScoreStep[]; // Live match: undo/redo steps, saved so a reload resumes them
+  historyIndex?: number;      // Live match: the step the score is at
+}
+
+// One undo/redo step of a live match: the score, and the goals recorded up to it
+export interface ScoreStep {
+  team1: number;
+  team2: number;
+  goals?: GoalEvent[];
+}
+
+// Rods on a foosball table, from the goal out
+export type Rod = 'goalie' | 'defense' | 'midfield' | 'attack';
+
+// One goal in a match. The team is the side the goal counts for, so an own
+// goal's scorer plays for the other side.
+export interface GoalEvent {
+  team: 'team1' | 'team2';
+  timestamp: number;
+  game?: number;              // Series: game the goal was scored in, from 1
+  scorerId?: string;          // globalPlayerId, once someone says who scored
+  position?: 'attacker' | 'defender'; // Scorer's position in the match (doubles)
+  rod?: Rod;
+  isOwnGoal?: boolean;
+}
+
+// Score of one game in a best-of-N series
+export interface GameScore {
+  team1: number;
+  team2: number;
 }
 
 // Tournament summary for lobby list
@@ -69,22 +178,128 @@ export interface TournamentSummary {
   lastUpdatedAt: number;
 }
 
+// How matches are scheduled over the course of a tournament
+// - open: matches are generated on demand to even out games played
+// - roundRobin: a fixed fixture list where everyone partners everyone once
+// - swiss: rounds pair players on similar points, avoiding repeat opponents
+// - kingOfTable: winner stays on, challengers queue for the table
+export type TournamentFormat = 'open' | 'roundRobin' | 'swiss' | 'kingOfTable';
+
+// Matchmaking strategy for open play (see matchmakingService)
+// - variety: players who need a game most, split for the fewest repeat teammates
+// - random: random players and teams
+// - balanced: like variety, blended with the closest predicted odds from Elo ratings
+// - newOpponents: players who need a game most, split for the fewest repeat opponents
+export type MatchmakingStrategyId = 'variety' | 'random' | 'balanced' | 'newOpponents';
+
 // Tournament settings
 export interface TournamentSettings {
+  format: TournamentFormat;
+  isSingles: boolean;         // 1v1 matches: each side stores its player as both attacker and defender
+  isFixedTeams: boolean;      // Play in registered pairs instead of reshuffling partners (doubles only)
+  matchmaking: MatchmakingStrategyId;
+  tableCount: number;         // Tables played on at the same time (1-4)
+  fairness: FairnessMode;     // Who needs a game most when players arrive late
+  catchUpCap: number;         // Catch-up fairness: most games a player can count as behind
+  pairingRules: PairingRule[]; // Doubles matchmaking: players who must or must not be teammates
   isPositionMode: boolean;
+  preferStrongerPosition: boolean; // Position mode: put players where their position rating is higher
   winningScore: number;       // First to N (1-20, default 10)
-  unicornBonus: 0 | 1 | 2;    // Bonus points for 10-0 shutout
+  winBy: number;              // Winning margin needed at the winning score (2 = deuce)
+  scoreCap: number | null;    // Deuce: first to this score wins whatever the margin (null = no cap)
+  matchMinutes: number | null; // Timed matches: length of the clock (null = untimed)
+  bestOf: number;             // Games in a series match: best of N (1 = a single game)
+  seriesScope: SeriesScope;   // Which matches are played as a series
+  switchSides: boolean;       // Series: teams change ends between games
+  unicornBonus: 0 | 1 | 2;    // Bonus points for a unicorn
+  unicornMinScore: number;    // Unicorn: a shutout win with at least this many goals (1 = any N-0)
+  pointsWin: number;          // Points for a win
+  pointsLoss: number;         // Points for a loss (participation)
+  pointsPerGoalMargin: number; // Extra points for the winner per goal of margin (0 = off)
+  tiebreakers: Tiebreaker[];  // Order of tiebreakers after points
   voiceAnnouncements: boolean; // Announce player names and scores via speech
   voiceName?: string;         // Selected voice name for speech synthesis
 }
 
 export const DEFAULT_TOURNAMENT_SETTINGS: TournamentSettings = {
+  format: 'open',
+  isSingles: false,
+  isFixedTeams: false,
+  matchmaking: 'variety',
+  tableCount: 1,
+  fairness: 'gamesPlayed',
+  catchUpCap: 2,
+  pairingRules: [],
   isPositionMode: true,
+  preferStrongerPosition: false,
   winningScore: 10,
+  winBy: 1,
+  scoreCap: null,
+  matchMinutes: null,
+  bestOf: 1,
+  seriesScope: 'all',
+  switchSides: true,
   unicornBonus: 1,
+  unicornMinScore: 10,
+  pointsWin: 1,
+  pointsLoss: 0,
+  pointsPerGoalMargin: 0,
+  tiebreakers: ['wins', 'goalDifference'],
   voiceAnnouncements: true,
 };
 
+// Ways to separate players (or teams) level on points, applied in the order chosen
+// - headToHead: more wins in the matches between the two
+export type Tiebreaker = 'wins' | 'goalDifference' | 'goalsScored' | 'headToHead';
+
+// Matches played as best-of-N series
+// - all: every match
+// - knockout: knockout bracket matches
+// - final: the final (and grand final) only
+export type SeriesScope = 'all' | 'knockout' | 'final';
+
+// Who needs a game most
+// - gamesPlayed: fewest games first, so late arrivals catch up game for game
+// - perMinute: fewest games per minute present (time missed is credited at the group's rate)
+// - catchUp: fewest games, but nobody counts as more than the cap behind the most played
+export type FairnessMode = 'gamesPlayed' | 'perMinute' | 'catchUp';
+
+// Partner constraints for generated doubles matches
+// - always: the two play on the same team whenever one of them is picked
+// - never: the two are never teammates
+export type PairingRuleType = 'always' | 'never';
+
+export interface PairingRule {
+  id: string;
+  type: PairingRuleType;
+  playerIds: [string, string]; // globalPlayerIds
+}
+
+// Player ratings that steer match generation (keyed by globalPlayerId)
+export interface MatchmakingRatings {
+  ratings?: Record<string, number>;                                       // Elo: balance the teams by predicted odds
+  positionRatings?: Record<string, { attack: number, defense: number }>;  // Put players in their stronger position
+}
+
+// Knockout pairing
+// - fixed: seeds are paired once (1st with last, 2nd with second-last...) and stay together
+// - rotating: winners advance individually and are re-paired with the other semi's winners
+export type BracketPairing = 'fixed' | 'rotating';
+
+// single: one loss and you're out
+// double: first loss drops a team to the losers' bracket; its champion must win the grand final twice
+export type BracketElimination = 'single' | 'double';
+
+// Knockout stage played after group play
+export interface Bracket {
+  elimination: BracketElimination;
+  pairing: BracketPairing;    // Always 'fixed' for double elimination
+  seedIds: string[];          // Seeded players, best first (globalPlayerIds)
+  matchIds: string[];         // Bracket matches, round by round
+  championIds?: string[];     // Set once the (grand) final has been decided
+  createdAt: number;
+}
+
 // Full tournament data
 export interface TournamentData {
   id: string;
@@ -95,6 +310,10 @@ export interface TournamentData {
   settings?: TournamentSettings;
   players: TournamentPlayer[];
   matches: Match[];
+  fixtureIds?: string[];      // Round robin: ids of the matches in the fixture list
+  completedAt?: number;       // Set once the fixture list or knockout has been played out
+  bracket?: Bracket;
+  fixedTeams?: FixedTeam[];   // Registered pairs for fixed-teams mode
 }
 
 // App-level persistent state